@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createHmac } from "crypto";
-import OpenAI from "openai";
+import { LlmError, complete, isLlmConfigured, type LlmContentPart } from "@/lib/llm";
 import { buildStyleAnalysisPrompt } from "@/lib/thumbnail-prompts";
+import { loadChannel } from "@/lib/channel-store";
+import { MAX_REFERENCES } from "@/lib/channel-schema";
+import { createUsageMeter, summarizeUsage } from "@/lib/usage";
+import { checkBudget, saveUsage } from "@/lib/usage-store";
+import { getActivePrompt } from "@/lib/prompt-registry";
 
 export const maxDuration = 60;
 
@@ -60,7 +65,7 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (!process.env.OPENAI_API_KEY) {
+  if (!isLlmConfigured("style_analysis")) {
     return NextResponse.json(
       { success: false, error: "AI service not configured" },
       { status: 500 }
@@ -76,21 +81,57 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const meter = createUsageMeter();
+  let channelId: string | undefined;
+
   try {
     const body = await request.json();
-    const { images } = body;
+    const { images, channel } = body;
+
+    // Optional: charges the call to the right channel's budget and fills the
+    // prompt's channel variable
+    const channelConfig = typeof channel === "string" ? await loadChannel(channel) : undefined;
+    channelId = channelConfig?.id;
 
-    // Validate: array of base64 strings or URLs, max 5
-    if (!Array.isArray(images) || images.length === 0 || images.length > 5) {
+    const budgetError = await checkBudget(channelConfig);
+    if (budgetError) {
+      return NextResponse.json({ success: false, error: budgetError }, { status: 402 });
+    }
+
+    // Without images, analyze the channel's reference library
+    if (images === undefined && !channelConfig) {
+      return NextResponse.json(
+        { success: false, error: "Pick a channel to analyze its reference thumbnails" },
+        { status: 400 }
+      );
+    }
+    if (images === undefined && channelConfig?.sampleThumbnails.length === 0) {
       return NextResponse.json(
-        { success: false, error: "Provide 1-5 sample images" },
+        {
+          success: false,
+          error: `This channel has no reference thumbnails yet. Add 1-${MAX_REFERENCES} under Thumbnail setup.`,
+        },
+        { status: 400 }
+      );
+    }
+    const samples: unknown = images ?? channelConfig?.sampleThumbnails;
+
+    // Validate: array of base64 strings or URLs, as many as a library holds
+    if (
+      !Array.isArray(samples) ||
+      samples.length === 0 ||
+      samples.length > MAX_REFERENCES ||
+      samples.some((img) => typeof img !== "string")
+    ) {
+      return NextResponse.json(
+        { success: false, error: `Provide 1-${MAX_REFERENCES} sample images` },
         { status: 400 }
       );
     }
 
     // Build vision messages with image content
-    const imageContent: OpenAI.Chat.Completions.ChatCompletionContentPart[] =
-      images.map((img: string) => {
+    const imageContent: LlmContentPart[] =
+      samples.map((img: string) => {
         if (img.startsWith("data:")) {
           // Base64 data URL
           return {
@@ -105,12 +146,12 @@ export async function POST(request: NextRequest) {
         };
       });
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const prompt = await getActivePrompt("style_analysis");
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const completion = await complete({
+      task: "style_analysis",
       messages: [
-        { role: "system", content: buildStyleAnalysisPrompt() },
+        { role: "system", content: buildStyleAnalysisPrompt(channelConfig, prompt.template) },
         {
           role: "user",
           content: [
@@ -122,11 +163,12 @@ export async function POST(request: NextRequest) {
           ],
         },
       ],
-      max_tokens: 500,
+      maxTokens: 500,
       temperature: 0.5,
+      meter,
     });
 
-    const styleGuide = completion.choices[0]?.message?.content;
+    const styleGuide = completion.content;
     if (!styleGuide) {
       return NextResponse.json(
         { success: false, error: "No response from AI" },
@@ -137,12 +179,24 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       style_guide: styleGuide.trim(),
+      prompt_versions: { style_analysis: prompt.version },
+      usage: summarizeUsage(meter),
     });
   } catch (error) {
     console.error("Style analysis error:", error);
+
+    if (error instanceof LlmError && error.reason === "rate_limited") {
+      return NextResponse.json(
+        { success: false, error: "AI rate limit exceeded. Wait a moment and try again." },
+        { status: 429 }
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: "Style analysis failed. Try again." },
       { status: 500 }
     );
+  } finally {
+    await saveUsage(meter, { route: "analyze-style", channel: channelId });
   }
 }
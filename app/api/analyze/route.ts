@@ -1,14 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createHmac } from "crypto";
-import OpenAI from "openai";
-import { getChannel } from "@/lib/channels";
-import { buildSystemPrompt, buildUserMessage } from "@/lib/prompts";
-
-export const maxDuration = 60;
+import { loadChannel } from "@/lib/channel-store";
+import { LlmError, complete, isLlmConfigured, streamCompletion } from "@/lib/llm";
+import {
+  buildChunkedUserMessage,
+  buildRepairMessage,
+  buildSystemPrompt,
+  buildUserMessage,
+} from "@/lib/prompts";
+import { validateAnalysis, type ValidationResult } from "@/lib/analysis-schema";
+import type { AnalysisData } from "@/lib/analysis";
+import { enforceCopyRules } from "@/lib/copy-rewrite";
+import { checkChapters, videoEndSeconds } from "@/lib/chapters";
+import { formatTimestamp, parseTranscript, renderTranscript } from "@/lib/transcript";
+import { cleanTranscript, parseCleanupOptions } from "@/lib/transcript-cleanup";
+import { createUsageMeter, summarizeUsage } from "@/lib/usage";
+import { checkBudget, saveUsage } from "@/lib/usage-store";
+import { getActivePrompt } from "@/lib/prompt-registry";
+import { extractKeyphrases } from "@/lib/keywords";
+import { addToKeywordCorpus, loadKeywordCorpus } from "@/lib/keyword-corpus";
+import {
+  analysisCacheKey,
+  readCachedAnalysis,
+  writeCachedAnalysis,
+  type CachedAnalysis,
+} from "@/lib/analysis-cache";
+import {
+  SINGLE_PASS_LIMIT,
+  mergeChapterCandidates,
+  splitTranscript,
+  summarizeChunks,
+} from "@/lib/chunked-analysis";
+import {
+  ANALYSIS_STREAM_CONTENT_TYPE,
+  createSectionScanner,
+  encodeStreamEvent,
+  type AnalysisStreamEvent,
+} from "@/lib/analysis-stream";
+
+// Long transcripts are summarized in parallel windows before the final pass,
+// which can take a few minutes for a multi-hour VOD.
+export const maxDuration = 300;
 
 const SESSION_COOKIE_NAME = "yva_session";
-const MAX_TRANSCRIPT_LENGTH = 100_000;
+const MAX_TRANSCRIPT_LENGTH = 1_000_000;
 
 // Rate limiting: max 10 requests per minute per IP
 const ANALYZE_RATE_WINDOW = 60 * 1000; // 1 minute
@@ -55,13 +91,22 @@ function checkAnalyzeRateLimit(ip: string): boolean {
   return true;
 }
 
+function parseAndValidate(content: string): ValidationResult<AnalysisData> {
+  try {
+    return validateAnalysis(JSON.parse(content));
+  } catch {
+    return { value: null, errors: ["response: not valid JSON"] };
+  }
+}
+
 // Strip sensitive data from error messages before returning to client
 function sanitizeError(error: unknown): string {
-  if (error instanceof OpenAI.APIError) {
+  if (error instanceof LlmError) {
     // Never expose API key fragments or internal URLs
-    if (error.status === 401) return "AI service authentication failed. Contact admin.";
-    if (error.status === 429) return "AI service rate limit exceeded. Try again in a minute.";
-    if (error.status === 500) return "AI service temporarily unavailable. Try again.";
+    if (error.reason === "not_configured") return "AI service not configured. Contact admin.";
+    if (error.reason === "auth_failed") return "AI service authentication failed. Contact admin.";
+    if (error.reason === "rate_limited") return "AI service rate limit exceeded. Try again in a minute.";
+    if (error.reason === "unavailable") return "AI service temporarily unavailable. Try again.";
     return "AI service error. Try again.";
   }
 
@@ -84,8 +129,8 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Validate API key exists
-  if (!process.env.OPENAI_API_KEY) {
+  // Validate a model is configured for every step this route may run
+  if (!isLlmConfigured("analysis", "chunk_summary", "copy_rewrite")) {
     return NextResponse.json(
       { success: false, error: "AI service not configured" },
       { status: 500 }
@@ -103,7 +148,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { transcript, channel, visual_context, video_duration } = body;
+    const { transcript, channel, visual_context, video_duration, cleanup, fresh } = body;
 
     // Validate required fields
     if (!transcript || typeof transcript !== "string" || transcript.trim().length === 0) {
@@ -113,7 +158,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (transcript.length > MAX_TRANSCRIPT_LENGTH) {
+    // Caption exports are parsed into timed cues and cleaned up; the limit
+    // applies to the spoken text, not the SRT/VTT/JSON scaffolding around it.
+    const rawTranscript = parseTranscript(transcript);
+    const parsedTranscript = cleanTranscript(rawTranscript, parseCleanupOptions(cleanup)).transcript;
+
+    if (parsedTranscript.text.length > MAX_TRANSCRIPT_LENGTH) {
       return NextResponse.json(
         { success: false, error: `Transcript exceeds ${MAX_TRANSCRIPT_LENGTH.toLocaleString()} character limit` },
         { status: 400 }
@@ -127,7 +177,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const channelConfig = getChannel(channel);
+    const channelConfig = await loadChannel(channel);
     if (!channelConfig) {
       return NextResponse.json(
         { success: false, error: "Unknown channel" },
@@ -150,48 +200,194 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build prompts
-    const systemPrompt = buildSystemPrompt(channelConfig);
-    const userMessage = buildUserMessage(transcript, visual_context, video_duration);
-
-    // Call OpenAI
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userMessage },
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.7,
-      max_tokens: 8000,
+    // The last cue gives the real running time when none was entered
+    const duration =
+      video_duration ||
+      (parsedTranscript.duration !== undefined
+        ? formatTimestamp(parsedTranscript.duration)
+        : undefined);
+
+    const [prompt, corpus] = await Promise.all([
+      getActivePrompt("analysis_system"),
+      loadKeywordCorpus(channel),
+    ]);
+    const keyphrases = extractKeyphrases(parsedTranscript.text, corpus).map((k) => k.phrase);
+    const systemPrompt = buildSystemPrompt(channelConfig, prompt.template, keyphrases);
+
+    // Keyed on the cleaned text, so toggling a cleanup rule is a new analysis.
+    // Keyphrases follow from the transcript plus a corpus that grows with every
+    // run, so the key uses the prompt without them.
+    const cacheKey = analysisCacheKey({
+      transcript: renderTranscript(parsedTranscript),
+      channel,
+      systemPrompt: buildSystemPrompt(channelConfig, prompt.template),
+      visualContext: visual_context || undefined,
+      duration,
     });
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      return NextResponse.json(
-        { success: false, error: "No response from AI" },
-        { status: 500 }
-      );
+    // A cache hit is free, so it is served even once the budget is spent
+    const cached = fresh === true ? null : await readCachedAnalysis(cacheKey);
+    if (cached) {
+      // The key covers the rendered prompt, so a hit was written by this wording
+      const event: AnalysisStreamEvent = {
+        type: "done",
+        ...cached,
+        prompt_versions: { analysis_system: prompt.version },
+        // Entries cached before keyphrases were stored
+        keyphrases: cached.keyphrases ?? keyphrases,
+        usage: summarizeUsage(createUsageMeter()),
+      };
+      return new Response(encodeStreamEvent(event), {
+        headers: { "Content-Type": ANALYSIS_STREAM_CONTENT_TYPE },
+      });
     }
 
-    // Parse and validate
-    const data = JSON.parse(content);
-
-    const required = ["titles", "description", "thumbnail_concepts", "tags", "timeline"];
-    const missing = required.filter((k) => !data[k]);
-    if (missing.length > 0) {
-      return NextResponse.json(
-        { success: false, error: `AI response incomplete. Missing: ${missing.join(", ")}` },
-        { status: 500 }
-      );
+    const budgetError = await checkBudget(channelConfig);
+    if (budgetError) {
+      return NextResponse.json({ success: false, error: budgetError }, { status: 402 });
     }
 
-    return NextResponse.json({
-      success: true,
-      channel: channel,
-      data,
+    // Stream each top-level section as soon as the model closes it. Errors from
+    // here on arrive as an event, because the 200 status has already been sent.
+    const encoder = new TextEncoder();
+    const meter = createUsageMeter();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: AnalysisStreamEvent) =>
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+
+        try {
+          // Build the user message. Past the single-pass limit the transcript
+          // is summarized window by window and the summaries stand in for it.
+          let userMessage: string;
+
+          if (parsedTranscript.text.length > SINGLE_PASS_LIMIT) {
+            const chunks = splitTranscript(parsedTranscript);
+            send({ type: "progress", message: `Summarizing long transcript in ${chunks.length} parts...` });
+
+            const summaries = await summarizeChunks(
+              channelConfig,
+              chunks,
+              (done, total) =>
+                send({ type: "progress", message: `Summarized part ${done} of ${total}...` }),
+              meter
+            );
+            send({ type: "progress", message: "Writing metadata from part summaries..." });
+
+            userMessage = buildChunkedUserMessage(
+              summaries,
+              mergeChapterCandidates(summaries),
+              visual_context,
+              duration
+            );
+          } else {
+            userMessage = buildUserMessage(parsedTranscript, visual_context, duration);
+          }
+
+          const completion = streamCompletion({
+            task: "analysis",
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: userMessage },
+            ],
+            json: true,
+            temperature: 0.7,
+            maxTokens: 8000,
+            meter,
+          });
+
+          const scanner = createSectionScanner();
+          let content = "";
+
+          for await (const delta of completion) {
+            content += delta;
+            for (const section of scanner.push(delta)) {
+              send({ type: "section", ...section });
+            }
+          }
+
+          if (!content) {
+            send({ type: "error", error: "No response from AI" });
+            return;
+          }
+
+          // Validate the whole document once the stream ends, and give the
+          // model one chance to fix whatever coercion could not
+          let result = parseAndValidate(content);
+
+          if (!result.value) {
+            console.warn("Analysis failed validation, requesting repair:", result.errors);
+            send({ type: "progress", message: "Fixing AI response..." });
+
+            const repair = await complete({
+              task: "analysis",
+              messages: [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: userMessage },
+                { role: "assistant", content },
+                { role: "user", content: buildRepairMessage(result.errors) },
+              ],
+              json: true,
+              temperature: 0.2,
+              maxTokens: 8000,
+              meter,
+            });
+
+            result = parseAndValidate(repair.content);
+          }
+
+          if (!result.value) {
+            console.error("Analysis failed validation after repair:", result.errors);
+            send({
+              type: "error",
+              error: `AI response invalid: ${result.errors.slice(0, 3).join("; ")}`,
+            });
+            return;
+          }
+
+          // Chapters first, so the copy rules lint the timeline that ships
+          const chapters = checkChapters(
+            result.value.timeline,
+            videoEndSeconds(video_duration, parsedTranscript.duration)
+          );
+
+          // The prompt's hard rules are checked here, not trusted
+          send({ type: "progress", message: "Checking copy rules..." });
+          const { data, report } = await enforceCopyRules(
+            channelConfig,
+            { ...result.value, timeline: chapters.timeline },
+            "",
+            meter
+          );
+
+          const analysis: CachedAnalysis = {
+            channel,
+            data,
+            lint: report,
+            chapters: chapters.issues,
+            prompt_versions: { analysis_system: prompt.version },
+            keyphrases,
+            cached_at: new Date().toISOString(),
+          };
+          send({ type: "done", ...analysis, cached_at: null, usage: summarizeUsage(meter) });
+          await writeCachedAnalysis(cacheKey, analysis);
+          await addToKeywordCorpus(channel, parsedTranscript.text, rawTranscript.text);
+        } catch (error) {
+          console.error("Analyze stream error:", error);
+          send({ type: "error", error: sanitizeError(error) });
+        } finally {
+          // Failed runs spent tokens too
+          await saveUsage(meter, { route: "analyze", channel });
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": ANALYSIS_STREAM_CONTENT_TYPE,
+        "Cache-Control": "no-cache, no-transform",
+      },
     });
   } catch (error) {
     // Log the full error server-side for debugging
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { LlmError, complete, isLlmConfigured } from "@/lib/llm";
+import { loadChannel } from "@/lib/channel-store";
+import {
+  buildVoiceLearningPrompt,
+  buildVoiceSamplesMessage,
+  parseVoiceProposal,
+  validateVoiceSamples,
+} from "@/lib/voice-learning";
+import { createUsageMeter, summarizeUsage } from "@/lib/usage";
+import { checkBudget, saveUsage } from "@/lib/usage-store";
+import { getActivePrompt } from "@/lib/prompt-registry";
+
+export const maxDuration = 60;
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+// Rate limiting: max 5 requests per minute per IP
+const RATE_WINDOW = 60 * 1000;
+const RATE_MAX = 5;
+const rateLimiter = new Map<string, { count: number; windowStart: number }>();
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+function getClientIP(request: NextRequest): string {
+  return (
+    request.headers.get("x-real-ip") ||
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    "unknown"
+  );
+}
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const record = rateLimiter.get(ip);
+
+  if (!record || now - record.windowStart > RATE_WINDOW) {
+    rateLimiter.set(ip, { count: 1, windowStart: now });
+    return true;
+  }
+
+  if (record.count >= RATE_MAX) return false;
+  record.count++;
+  return true;
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Proposes voice fields for a channel from its past videos. Body:
+ * `{ samples: VoiceSample[] }`. Nothing is saved; the Channels page applies
+ * the fields picked in review with a normal PUT.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  // Auth check
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  if (!session?.value || !verifySessionToken(session.value)) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  if (!isLlmConfigured("voice_learning")) {
+    return NextResponse.json(
+      { success: false, error: "AI service not configured" },
+      { status: 500 }
+    );
+  }
+
+  // Rate limit
+  const ip = getClientIP(request);
+  if (!checkRateLimit(ip)) {
+    return NextResponse.json(
+      { success: false, error: "Too many requests. Wait a minute." },
+      { status: 429 }
+    );
+  }
+
+  const { id } = await params;
+  const channel = await loadChannel(id);
+  if (!channel) {
+    return NextResponse.json(
+      { success: false, error: `No channel with the id "${id}".` },
+      { status: 404 }
+    );
+  }
+
+  const meter = createUsageMeter();
+
+  try {
+    const body = await request.json();
+    const { value: samples, errors } = validateVoiceSamples(body?.samples);
+    if (!samples) {
+      return NextResponse.json({ success: false, error: errors.join("\n") }, { status: 400 });
+    }
+
+    const budgetError = await checkBudget(channel);
+    if (budgetError) {
+      return NextResponse.json({ success: false, error: budgetError }, { status: 402 });
+    }
+
+    const prompt = await getActivePrompt("voice_learning");
+
+    const completion = await complete({
+      task: "voice_learning",
+      messages: [
+        { role: "system", content: buildVoiceLearningPrompt(channel, prompt.template) },
+        { role: "user", content: buildVoiceSamplesMessage(samples) },
+      ],
+      json: true,
+      maxTokens: 1200,
+      temperature: 0.4,
+      meter,
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(completion.content);
+    } catch {
+      parsed = null;
+    }
+    const proposal = parseVoiceProposal(parsed);
+    if (!proposal.value) {
+      console.error("Voice learning returned an unusable proposal:", proposal.errors);
+      return NextResponse.json(
+        { success: false, error: "The AI returned an unusable proposal. Try again." },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      proposal: proposal.value,
+      sample_count: samples.length,
+      prompt_versions: { voice_learning: prompt.version },
+      usage: summarizeUsage(meter),
+    });
+  } catch (error) {
+    console.error("Voice learning error:", error);
+
+    if (error instanceof LlmError && error.reason === "rate_limited") {
+      return NextResponse.json(
+        { success: false, error: "AI rate limit exceeded. Wait a moment and try again." },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Voice learning failed. Try again." },
+      { status: 500 }
+    );
+  } finally {
+    await saveUsage(meter, { route: "learn-voice", channel: channel.id });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { ChannelError } from "@/lib/channel-store";
+import { bunnyStorage } from "@/lib/bunny-storage";
+import { addReferences, removeReference } from "@/lib/reference-library";
+
+export const maxDuration = 30;
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+const STATUS_FOR_REASON: Record<ChannelError["reason"], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+  last_channel: 409,
+  not_configured: 503,
+};
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+async function isAuthenticated(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  return !!session?.value && verifySessionToken(session.value);
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Uploads reference thumbnails to the CDN. Body: form data with one or more `file` entries. */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    bunnyStorage();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "CDN storage not configured" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const formData = await request.formData();
+    const files = formData.getAll("file").filter((entry): entry is File => entry instanceof File);
+    const channel = await addReferences(id, files);
+    return NextResponse.json({ success: true, channel });
+  } catch (error) {
+    if (error instanceof ChannelError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Reference upload error:", error);
+    return NextResponse.json(
+      { success: false, error: "Upload failed" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Removes one reference, `?url=`, and deletes its file when it was uploaded here. */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const url = request.nextUrl.searchParams.get("url");
+  if (!url) {
+    return NextResponse.json(
+      { success: false, error: "No url provided" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const channel = await removeReference(id, url);
+    return NextResponse.json({ success: true, channel });
+  } catch (error) {
+    if (error instanceof ChannelError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Reference delete error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not remove the reference. Try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { ChannelError, deleteChannel, loadChannel, updateChannel } from "@/lib/channel-store";
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+const STATUS_FOR_REASON: Record<ChannelError["reason"], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+  last_channel: 409,
+  not_configured: 503,
+};
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+async function isAuthenticated(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  return !!session?.value && verifySessionToken(session.value);
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+  const channel = await loadChannel(id);
+  if (!channel) {
+    return NextResponse.json(
+      { success: false, error: `No channel with the id "${id}".` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ success: true, channel });
+}
+
+/** Replaces the channel's config. The body is a whole `ChannelConfig` with the same id. */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "The request body is not valid JSON." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const channel = await updateChannel(id, body);
+    return NextResponse.json({ success: true, channel });
+  } catch (error) {
+    if (error instanceof ChannelError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Channel update error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not save the channel. Try again." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    await deleteChannel(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ChannelError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Channel delete error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not delete the channel. Try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { listChannels } from "@/lib/channel-store";
+import { buildChannelExport } from "@/lib/channel-schema";
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+async function isAuthenticated(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  return !!session?.value && verifySessionToken(session.value);
+}
+
+/**
+ * Downloads channels as an export file: every channel, or the ones named in
+ * `?ids=a,b`.
+ */
+export async function GET(request: NextRequest) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const ids = request.nextUrl.searchParams.get("ids")?.split(",").filter(Boolean);
+  const channels = (await listChannels()).filter((channel) => !ids || ids.includes(channel.id));
+  if (channels.length === 0) {
+    return NextResponse.json(
+      { success: false, error: "No channels match." },
+      { status: 404 }
+    );
+  }
+
+  const name = channels.length === 1 ? channels[0].id : "channels";
+  return new NextResponse(JSON.stringify(buildChannelExport(channels), null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="${name}-${new Date().toISOString().slice(0, 10)}.json"`,
+    },
+  });
+}
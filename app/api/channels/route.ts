@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { ChannelError, createChannel, listChannels } from "@/lib/channel-store";
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+const STATUS_FOR_REASON: Record<ChannelError["reason"], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+  last_channel: 409,
+  not_configured: 503,
+};
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+async function isAuthenticated(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  return !!session?.value && verifySessionToken(session.value);
+}
+
+export async function GET() {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const channels = await listChannels();
+  return NextResponse.json({ success: true, channels });
+}
+
+/** Adds a channel. The body is a whole `ChannelConfig`. */
+export async function POST(request: NextRequest) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "The request body is not valid JSON." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const channel = await createChannel(body);
+    return NextResponse.json({ success: true, channel });
+  } catch (error) {
+    if (error instanceof ChannelError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Channel create error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not save the channel. Try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { FontError, deleteFont } from "@/lib/font-registry";
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+const STATUS_FOR_REASON: Record<FontError["reason"], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+  in_use: 409,
+  not_configured: 503,
+};
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+async function isAuthenticated(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  return !!session?.value && verifySessionToken(session.value);
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    await deleteFont(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof FontError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Font delete error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not delete the font. Try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { bunnyStorage } from "@/lib/bunny-storage";
+import { FontError, listFonts, registerFont } from "@/lib/font-registry";
+
+export const maxDuration = 30;
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+const STATUS_FOR_REASON: Record<FontError["reason"], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+  in_use: 409,
+  not_configured: 503,
+};
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+async function isAuthenticated(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  return !!session?.value && verifySessionToken(session.value);
+}
+
+export async function GET() {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const fonts = await listFonts();
+  return NextResponse.json({ success: true, fonts });
+}
+
+/** Registers an overlay font. Body: form data with `font`, `license` and an optional `name`. */
+export async function POST(request: NextRequest) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    bunnyStorage();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "CDN storage not configured" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const formData = await request.formData();
+    const font = formData.get("font");
+    const license = formData.get("license");
+    const name = formData.get("name");
+
+    if (!(font instanceof File) || !(license instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: "Provide the font file and its license file" },
+        { status: 400 }
+      );
+    }
+
+    const asset = await registerFont(font, license, typeof name === "string" ? name : undefined);
+    return NextResponse.json({ success: true, font: asset });
+  } catch (error) {
+    if (error instanceof FontError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Font upload error:", error);
+    return NextResponse.json(
+      { success: false, error: "Upload failed" },
+      { status: 500 }
+    );
+  }
+}
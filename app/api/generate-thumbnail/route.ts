@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createHmac } from "crypto";
-import OpenAI from "openai";
+import { LlmError, complete, isLlmConfigured } from "@/lib/llm";
 import sharp from "sharp";
-import { getChannel } from "@/lib/channels";
+import { loadChannel } from "@/lib/channel-store";
 import { buildFluxPrompt, buildPromptCrafterSystem } from "@/lib/thumbnail-prompts";
 import { generateImageOnTim, TimImageError } from "@/lib/tim-flux";
 import { compositeTextOverlay } from "@/lib/thumbnail-text";
+import { cdnFetch, uniqueFilename, uploadToBunny } from "@/lib/bunny-storage";
+import { createUsageMeter, summarizeUsage } from "@/lib/usage";
+import { checkBudget, saveUsage } from "@/lib/usage-store";
+import { getActivePrompt } from "@/lib/prompt-registry";
 
 // Images are generated on Tim's GPU via the media_jobs queue: ~11s of FLUX
 // plus up to ~3s of worker poll lag, so allow generous headroom.
@@ -58,39 +62,12 @@ function checkRateLimit(ip: string): boolean {
   return true;
 }
 
-async function uploadToBunnyCDN(imageBuffer: Buffer, filename: string): Promise<string> {
-  const storageZone = process.env.BUNNY_STORAGE_ZONE?.trim();
-  const accessKey = process.env.BUNNY_ACCESS_KEY?.trim();
-  const cdnHost = process.env.BUNNY_CDN_HOST?.trim();
-
-  if (!storageZone || !accessKey || !cdnHost) {
-    throw new Error("Bunny CDN not configured");
-  }
-
-  const uploadUrl = `https://la.storage.bunnycdn.com/${storageZone}/${filename}`;
-
-  const response = await fetch(uploadUrl, {
-    method: "PUT",
-    headers: {
-      AccessKey: accessKey,
-      "Content-Type": "image/png",
-    },
-    body: new Uint8Array(imageBuffer),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Bunny CDN upload failed: ${response.status}`);
-  }
-
-  return `https://${cdnHost}/${filename}`;
-}
-
 async function compositeHeadshot(
   baseImage: Uint8Array | Buffer,
   headshotUrl: string
 ): Promise<Buffer> {
   // Download headshot
-  const headshotResponse = await fetch(headshotUrl);
+  const headshotResponse = await cdnFetch(headshotUrl);
   if (!headshotResponse.ok) {
     throw new Error("Failed to download headshot");
   }
@@ -132,7 +109,7 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (!process.env.OPENAI_API_KEY) {
+  if (!isLlmConfigured("thumbnail_prompt")) {
     return NextResponse.json(
       { success: false, error: "AI service not configured" },
       { status: 500 }
@@ -148,6 +125,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const meter = createUsageMeter();
+  let usageChannel: string | undefined;
+
   try {
     const body = await request.json();
     const {
@@ -175,7 +155,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const channel = getChannel(channelId);
+    const channel = await loadChannel(channelId);
     if (!channel) {
       return NextResponse.json(
         { success: false, error: "Unknown channel" },
@@ -183,34 +163,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    usageChannel = channel.id;
+
+    const budgetError = await checkBudget(channel);
+    if (budgetError) {
+      return NextResponse.json({ success: false, error: budgetError }, { status: 402 });
+    }
+
     const overlay = typeof text_overlay === "string" ? text_overlay : "";
     const includeHeadshot = !!headshot_url;
 
-    // Step 1: Use GPT-4o to craft an optimized FLUX prompt
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    // Step 1: Have the prompt crafter model write an optimized FLUX prompt
+    const [fluxPrompt, crafterPrompt] = await Promise.all([
+      getActivePrompt("thumbnail_flux"),
+      getActivePrompt("thumbnail_crafter"),
+    ]);
 
     const baseFluxPrompt = buildFluxPrompt(
       concept,
       channel,
       typeof style_guide === "string" ? style_guide : null,
-      includeHeadshot
+      includeHeadshot,
+      fluxPrompt.template
     );
 
-    const promptCrafterResponse = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const promptCrafterResponse = await complete({
+      task: "thumbnail_prompt",
       messages: [
-        { role: "system", content: buildPromptCrafterSystem() },
+        { role: "system", content: buildPromptCrafterSystem(channel, crafterPrompt.template) },
         {
           role: "user",
-          content: `Transform this thumbnail concept into an optimized FLUX prompt for a text-free background:\n\nCONCEPT: ${concept}\nEMOTION: ${emotion || "curiosity"}\nCHANNEL: ${channel.name}\n${video_title ? `VIDEO TITLE: ${video_title}` : ""}\n\nBASE PROMPT TO ENHANCE:\n${baseFluxPrompt}`,
+          content: `Transform this thumbnail concept into an optimized FLUX prompt for a text-free background:\n\nCONCEPT: ${concept}\nEMOTION: ${emotion || "curiosity"}\nCHANNEL: ${channel.name}\n${video_title ? `VIDEO TITLE: ${video_title} (the image should add to the title, not illustrate it word for word)` : ""}\n\nBASE PROMPT TO ENHANCE:\n${baseFluxPrompt}`,
         },
       ],
-      max_tokens: 1000,
+      maxTokens: 1000,
       temperature: 0.7,
+      meter,
     });
 
-    const optimizedPrompt =
-      promptCrafterResponse.choices[0]?.message?.content || baseFluxPrompt;
+    const optimizedPrompt = promptCrafterResponse.content || baseFluxPrompt;
 
     // Step 2: Generate the image on Tim's local GPU (FLUX, free) via the queue
     const imageUrl = await generateImageOnTim(
@@ -224,7 +215,7 @@ export async function POST(request: NextRequest) {
     );
 
     // Step 3: Download and resize with sharp
-    const imageDownload = await fetch(imageUrl);
+    const imageDownload = await cdnFetch(imageUrl);
     if (!imageDownload.ok) {
       return NextResponse.json(
         { success: false, error: "Failed to download generated image" },
@@ -265,11 +256,11 @@ export async function POST(request: NextRequest) {
 
     // Step 6: Upload to Bunny CDN
     // Prefixed because the storage zone is shared with other Hunter Mason media.
-    const filename = `yva/thumb-${Date.now()}-${Math.random().toString(36).substring(2, 8)}.png`;
+    const filename = uniqueFilename("yva/thumbnails", "png");
 
     let finalUrl: string;
     try {
-      finalUrl = await uploadToBunnyCDN(imageBuffer, filename);
+      finalUrl = await uploadToBunny(filename, new Uint8Array(imageBuffer).buffer, "image/png");
     } catch (err) {
       console.error("Bunny CDN upload failed:", err);
       // Fallback: the queue already parked a copy on Tim's CDN zone. That URL
@@ -282,6 +273,11 @@ export async function POST(request: NextRequest) {
       url: finalUrl,
       prompt_used: optimizedPrompt,
       text_overlay: overlay,
+      prompt_versions: {
+        thumbnail_flux: fluxPrompt.version,
+        thumbnail_crafter: crafterPrompt.version,
+      },
+      usage: summarizeUsage(meter),
     });
   } catch (error) {
     console.error("Thumbnail generation error:", error);
@@ -300,31 +296,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (error instanceof OpenAI.APIError) {
-      if (error.status === 400 && error.message?.includes("content_policy")) {
-        return NextResponse.json(
-          {
-            success: false,
-            error:
-              "Image generation was blocked by content policy. Try a different concept.",
-          },
-          { status: 400 }
-        );
-      }
-      if (error.status === 429) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: "AI rate limit exceeded. Wait a moment and try again.",
-          },
-          { status: 429 }
-        );
-      }
+    if (error instanceof LlmError && error.reason === "content_policy") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "This concept was blocked by content policy. Try a different concept.",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LlmError && error.reason === "rate_limited") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "AI rate limit exceeded. Wait a moment and try again.",
+        },
+        { status: 429 }
+      );
     }
 
     return NextResponse.json(
       { success: false, error: "Thumbnail generation failed. Try again." },
       { status: 500 }
     );
+  } finally {
+    await saveUsage(meter, { route: "generate-thumbnail", channel: usageChannel });
   }
 }
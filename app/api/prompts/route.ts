@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { PromptError, listPrompts, rollbackPrompt, savePromptVersion } from "@/lib/prompt-registry";
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+const STATUS_FOR_REASON: Record<PromptError["reason"], number> = {
+  unknown_prompt: 400,
+  invalid_template: 400,
+  unknown_version: 400,
+  conflict: 409,
+  not_configured: 503,
+};
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+async function isAuthenticated(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  return !!session?.value && verifySessionToken(session.value);
+}
+
+export async function GET() {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const prompts = await listPrompts();
+    return NextResponse.json({ success: true, prompts });
+  } catch (error) {
+    console.error("Prompt list error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not load prompts. Try again." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Saves a new version: `{name, template, note}` for an edit, or
+ * `{name, rollback_to}` to make an older version live again.
+ */
+export async function POST(request: NextRequest) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { name, template, note, rollback_to } = body;
+
+    const version =
+      rollback_to !== undefined
+        ? await rollbackPrompt(name, rollback_to)
+        : await savePromptVersion(name, template, note);
+
+    return NextResponse.json({ success: true, version });
+  } catch (error) {
+    if (error instanceof PromptError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_FOR_REASON[error.reason] }
+      );
+    }
+
+    console.error("Prompt save error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not save the prompt. Try again." },
+      { status: 500 }
+    );
+  }
+}
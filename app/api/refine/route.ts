@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { loadChannel } from "@/lib/channel-store";
+import { LlmError, complete, isLlmConfigured } from "@/lib/llm";
+import { buildRefineMessage, buildSystemPrompt } from "@/lib/prompts";
+import { validateAnalysis } from "@/lib/analysis-schema";
+import { formatTimestamp, parseTranscript } from "@/lib/transcript";
+import { cleanTranscript, parseCleanupOptions } from "@/lib/transcript-cleanup";
+import { SINGLE_PASS_LIMIT } from "@/lib/chunked-analysis";
+import { enforceCopyRules } from "@/lib/copy-rewrite";
+import { applyRefinePatch, parseRefinePatch, readPath, type RefineTurn } from "@/lib/refine";
+import { checkChapters, videoEndSeconds, type ChapterCheck } from "@/lib/chapters";
+import { createUsageMeter, summarizeUsage } from "@/lib/usage";
+import { checkBudget, saveUsage } from "@/lib/usage-store";
+import { getActivePrompt } from "@/lib/prompt-registry";
+import { extractKeyphrases } from "@/lib/keywords";
+import { loadKeywordCorpus } from "@/lib/keyword-corpus";
+
+export const maxDuration = 60;
+
+const SESSION_COOKIE_NAME = "yva_session";
+const MAX_TRANSCRIPT_LENGTH = 1_000_000;
+const MAX_INSTRUCTION_LENGTH = 1000;
+// Earlier turns sent back as context. Older ones are already baked into the results.
+const MAX_HISTORY_TURNS = 6;
+
+// Rate limiting: max 20 requests per minute per IP. Chat edits are small and
+// tend to come in quick bursts, like regenerating.
+const RATE_WINDOW = 60 * 1000;
+const RATE_MAX = 20;
+const rateLimiter = new Map<string, { count: number; windowStart: number }>();
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+function getClientIP(request: NextRequest): string {
+  return (
+    request.headers.get("x-real-ip") ||
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    "unknown"
+  );
+}
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const record = rateLimiter.get(ip);
+
+  if (!record || now - record.windowStart > RATE_WINDOW) {
+    rateLimiter.set(ip, { count: 1, windowStart: now });
+    return true;
+  }
+
+  if (record.count >= RATE_MAX) return false;
+  record.count++;
+  return true;
+}
+
+export async function POST(request: NextRequest) {
+  // Auth check
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  if (!session?.value || !verifySessionToken(session.value)) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  if (!isLlmConfigured("refine", "copy_rewrite")) {
+    return NextResponse.json(
+      { success: false, error: "AI service not configured" },
+      { status: 500 }
+    );
+  }
+
+  // Rate limit
+  const ip = getClientIP(request);
+  if (!checkRateLimit(ip)) {
+    return NextResponse.json(
+      { success: false, error: "Too many requests. Wait a minute." },
+      { status: 429 }
+    );
+  }
+
+  const meter = createUsageMeter();
+  let channelId: string | undefined;
+
+  try {
+    const body = await request.json();
+    const { transcript, channel, visual_context, video_duration, cleanup, instruction, current, history } = body;
+
+    // Validate required fields
+    if (!transcript || typeof transcript !== "string" || transcript.length > MAX_TRANSCRIPT_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: "Transcript is required" },
+        { status: 400 }
+      );
+    }
+
+    const channelConfig = typeof channel === "string" ? await loadChannel(channel) : undefined;
+    if (!channelConfig) {
+      return NextResponse.json(
+        { success: false, error: "Unknown channel" },
+        { status: 400 }
+      );
+    }
+
+    channelId = channelConfig.id;
+
+    const budgetError = await checkBudget(channelConfig);
+    if (budgetError) {
+      return NextResponse.json({ success: false, error: budgetError }, { status: 402 });
+    }
+
+    if (!instruction || typeof instruction !== "string" || instruction.length > MAX_INSTRUCTION_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: "Tell it what to change" },
+        { status: 400 }
+      );
+    }
+
+    const previous = validateAnalysis(current);
+    if (!previous.value) {
+      return NextResponse.json(
+        { success: false, error: "Current results are incomplete. Run a full analysis first." },
+        { status: 400 }
+      );
+    }
+
+    const turns: RefineTurn[] = Array.isArray(history)
+      ? history
+          .filter(
+            (turn): turn is RefineTurn =>
+              typeof turn?.instruction === "string" && typeof turn?.summary === "string"
+          )
+          .slice(-MAX_HISTORY_TURNS)
+      : [];
+
+    const parsedTranscript = cleanTranscript(
+      parseTranscript(transcript),
+      parseCleanupOptions(cleanup)
+    ).transcript;
+    const duration =
+      (typeof video_duration === "string" && video_duration) ||
+      (parsedTranscript.duration !== undefined
+        ? formatTimestamp(parsedTranscript.duration)
+        : undefined);
+
+    const userMessage = buildRefineMessage(
+      instruction.trim(),
+      previous.value,
+      turns,
+      parsedTranscript.text.length > SINGLE_PASS_LIMIT ? null : parsedTranscript,
+      typeof visual_context === "string" ? visual_context : undefined,
+      duration
+    );
+
+    const [prompt, corpus] = await Promise.all([
+      getActivePrompt("analysis_system"),
+      loadKeywordCorpus(channelConfig.id),
+    ]);
+    const keyphrases = extractKeyphrases(parsedTranscript.text, corpus).map((k) => k.phrase);
+
+    const completion = await complete({
+      task: "refine",
+      messages: [
+        { role: "system", content: buildSystemPrompt(channelConfig, prompt.template, keyphrases) },
+        { role: "user", content: userMessage },
+      ],
+      json: true,
+      temperature: 0.7,
+      maxTokens: 4000,
+      meter,
+    });
+
+    const content = completion.content;
+    if (!content) {
+      return NextResponse.json(
+        { success: false, error: "No response from AI" },
+        { status: 500 }
+      );
+    }
+
+    const patch = parseRefinePatch(JSON.parse(content));
+    if (patch.changes.length === 0) {
+      return NextResponse.json({
+        success: true,
+        summary: patch.summary,
+        changes: [],
+        lint: null,
+        chapters: null,
+        usage: summarizeUsage(meter),
+      });
+    }
+
+    const { data, errors } = applyRefinePatch(previous.value, patch.changes);
+    if (!data) {
+      console.error("Refined results failed validation:", errors);
+      return NextResponse.json(
+        { success: false, error: "AI returned an invalid change. Try rephrasing." },
+        { status: 500 }
+      );
+    }
+
+    let result = data;
+    let chapters: ChapterCheck | null = null;
+    if (patch.changes.some((c) => c.path === "timeline")) {
+      chapters = checkChapters(
+        data.timeline,
+        videoEndSeconds(
+          typeof video_duration === "string" ? video_duration : undefined,
+          parsedTranscript.duration
+        )
+      );
+      result = { ...data, timeline: chapters.timeline };
+    }
+
+    // Copy rules apply to the changed fields only, in one pass so every field
+    // that needs a rewrite shares a single model call
+    const changedPaths = patch.changes.map(({ path }) => path);
+    const enforced = await enforceCopyRules(channelConfig, result, changedPaths, meter);
+    result = enforced.data;
+
+    // Send back the patch with the rule fixes folded in
+    return NextResponse.json({
+      success: true,
+      summary: patch.summary,
+      changes: changedPaths.map((path) => ({ path, value: readPath(result, path) })),
+      lint: enforced.report,
+      chapters: chapters?.issues ?? null,
+      usage: summarizeUsage(meter),
+    });
+  } catch (error) {
+    console.error("Refine error:", error);
+
+    if (error instanceof LlmError && error.reason === "rate_limited") {
+      return NextResponse.json(
+        { success: false, error: "AI rate limit exceeded. Wait a moment and try again." },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Could not apply that change. Try again." },
+      { status: 500 }
+    );
+  } finally {
+    await saveUsage(meter, { route: "refine", channel: channelId });
+  }
+}
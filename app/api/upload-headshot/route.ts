@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createHmac } from "crypto";
+import { bunnyStorage, uploadToBunny } from "@/lib/bunny-storage";
 
 export const maxDuration = 30;
 
@@ -32,11 +33,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const storageZone = process.env.BUNNY_STORAGE_ZONE?.trim();
-  const accessKey = process.env.BUNNY_ACCESS_KEY?.trim();
-  const cdnHost = process.env.BUNNY_CDN_HOST?.trim();
-
-  if (!storageZone || !accessKey || !cdnHost) {
+  try {
+    bunnyStorage();
+  } catch {
     return NextResponse.json(
       { success: false, error: "CDN storage not configured" },
       { status: 500 }
@@ -68,33 +67,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-
     const ext = file.type === "image/png" ? "png" : "webp";
     const filename = `headshot-${Date.now()}-${Math.random().toString(36).substring(2, 8)}.${ext}`;
-    const uploadUrl = `https://la.storage.bunnycdn.com/${storageZone}/${filename}`;
-
-    const uploadResponse = await fetch(uploadUrl, {
-      method: "PUT",
-      headers: {
-        AccessKey: accessKey,
-        "Content-Type": file.type,
-      },
-      body: new Uint8Array(buffer),
-    });
 
-    if (!uploadResponse.ok) {
+    let url: string;
+    try {
+      url = await uploadToBunny(filename, await file.arrayBuffer(), file.type);
+    } catch (error) {
+      console.error("Headshot CDN upload error:", error);
       return NextResponse.json(
         { success: false, error: "CDN upload failed" },
         { status: 500 }
       );
     }
 
-    return NextResponse.json({
-      success: true,
-      url: `https://${cdnHost}/${filename}`,
-    });
+    return NextResponse.json({ success: true, url });
   } catch (error) {
     console.error("Headshot upload error:", error);
     return NextResponse.json(
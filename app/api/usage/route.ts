@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createHmac } from "crypto";
+import { buildUsageReport } from "@/lib/usage-store";
+
+const SESSION_COOKIE_NAME = "yva_session";
+
+function verifySessionToken(token: string): boolean {
+  const secret = createHmac("sha256", process.env.APP_PASSWORD || "fallback")
+    .update("yva-session-secret")
+    .digest("hex");
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return false;
+  const [nonce, signature] = parts;
+  if (!nonce || !signature) return false;
+
+  const expected = createHmac("sha256", secret).update(nonce).digest("hex");
+  return signature === expected;
+}
+
+export async function GET() {
+  // Auth check
+  const cookieStore = await cookies();
+  const session = cookieStore.get(SESSION_COOKIE_NAME);
+  if (!session?.value || !verifySessionToken(session.value)) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const report = await buildUsageReport();
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Usage report error:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not load usage. Try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,1009 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import ThemeToggle from "@/components/ThemeToggle";
+import type { ChannelConfig } from "@/lib/channels";
+import type { FontAsset } from "@/lib/font-registry";
+import { validateChannel } from "@/lib/channel-schema";
+import { diffLines } from "@/lib/prompt-template";
+import {
+  MAX_VOICE_SAMPLES,
+  MIN_VOICE_SAMPLES,
+  parsePastedSamples,
+  parseVideoListCsv,
+  type VoiceSample,
+} from "@/lib/voice-samples";
+import {
+  VOICE_FIELDS,
+  VOICE_FIELD_LABELS,
+  proposedVoiceFields,
+  voiceFieldText,
+  type VoiceField,
+  type VoiceProposal,
+} from "@/lib/voice-learning";
+
+type FieldKind = "text" | "textarea" | "color" | "lines" | "links" | "number" | "font";
+
+interface FieldSpec {
+  readonly key: keyof ChannelConfig;
+  readonly label: string;
+  readonly kind: FieldKind;
+  readonly hint?: string;
+  /** Set only when the channel is created; saving an existing one leaves it as stored. */
+  readonly locked?: boolean;
+}
+
+const SECTIONS: { title: string; fields: FieldSpec[] }[] = [
+  {
+    title: "Channel",
+    fields: [
+      { key: "id", label: "Id", kind: "text", hint: "Lower-case slug. Cannot change once saved.", locked: true },
+      { key: "name", label: "Name", kind: "text" },
+      { key: "handle", label: "Handle", kind: "text", hint: "e.g. @techtonyai" },
+      { key: "audience", label: "Audience", kind: "textarea" },
+      { key: "tone", label: "Tone", kind: "textarea" },
+      { key: "topics", label: "Topics", kind: "textarea" },
+      { key: "monthlyBudgetUsd", label: "Monthly budget (USD)", kind: "number", hint: "Empty for no cap" },
+    ],
+  },
+  {
+    title: "Copy",
+    fields: [
+      { key: "titlePatterns", label: "Title patterns", kind: "lines", hint: "One per line" },
+      { key: "bannedWords", label: "Banned words", kind: "lines", hint: "One per line, on top of the shared AI-word list" },
+      {
+        key: "descriptionStyle",
+        label: "Description style",
+        kind: "textarea",
+        hint: "How descriptions usually open, run and sign off. Learn voice below can write it",
+      },
+      {
+        key: "descriptionFooter",
+        label: "Description footer",
+        kind: "textarea",
+        hint: "{{title}}, {{date}}, {{year}}, {{chapters}}, {{sponsor}}, {{channel_name}}, {{handle}} and any footer link name",
+      },
+      { key: "footerLinks", label: "Footer links", kind: "links", hint: "One per line: name https://..." },
+    ],
+  },
+  {
+    title: "Thumbnails",
+    fields: [
+      { key: "thumbnailColors", label: "Thumbnail colors", kind: "textarea" },
+      { key: "thumbnailStyle", label: "Default style guide", kind: "textarea" },
+      { key: "thumbnailVibe", label: "Vibe", kind: "text" },
+      { key: "thumbnailTextTreatment", label: "Text treatment", kind: "text" },
+      { key: "overlayFont", label: "Overlay font", kind: "font", hint: "The face the headline is burned in with" },
+      {
+        key: "sampleThumbnails",
+        label: "Reference thumbnails",
+        kind: "lines",
+        hint: "Up to 10 image URLs, one per line. Once saved, add and remove them in Thumbnail setup on the analyzer",
+        locked: true,
+      },
+    ],
+  },
+  {
+    title: "Colors",
+    fields: [
+      { key: "accentColor", label: "Accent color", kind: "color" },
+      { key: "accentBg", label: "Accent background", kind: "text", hint: "Any CSS color, e.g. rgba(0, 102, 255, 0.15)" },
+      { key: "gradient", label: "Gradient", kind: "text", hint: "CSS gradient, e.g. linear-gradient(135deg, #0066FF, #39FF14)" },
+      { key: "textFill", label: "Overlay text fill", kind: "color" },
+      { key: "textOutline", label: "Overlay text outline", kind: "color" },
+    ],
+  },
+];
+
+/** Form values as typed: lists are one entry per line, links "name url". */
+type Draft = Record<keyof ChannelConfig, string>;
+
+const EMPTY_DRAFT: Draft = {
+  id: "",
+  name: "",
+  handle: "",
+  audience: "",
+  tone: "",
+  topics: "",
+  thumbnailColors: "",
+  titlePatterns: "",
+  bannedWords: "",
+  sampleThumbnails: "",
+  thumbnailStyle: "",
+  accentColor: "#FF0000",
+  accentBg: "rgba(255, 0, 0, 0.15)",
+  gradient: "linear-gradient(135deg, #FF0000, #FF8800)",
+  thumbnailVibe: "",
+  thumbnailTextTreatment: "",
+  textFill: "#FFFFFF",
+  textOutline: "#000000",
+  overlayFont: "",
+  descriptionStyle: "",
+  descriptionFooter: "",
+  footerLinks: "",
+  monthlyBudgetUsd: "",
+};
+
+function toDraft(channel: ChannelConfig): Draft {
+  return {
+    ...EMPTY_DRAFT,
+    ...Object.fromEntries(
+      Object.entries(channel).filter(([, value]) => typeof value === "string")
+    ),
+    titlePatterns: channel.titlePatterns.join("\n"),
+    bannedWords: channel.bannedWords.join("\n"),
+    sampleThumbnails: channel.sampleThumbnails.join("\n"),
+    footerLinks: Object.entries(channel.footerLinks ?? {})
+      .map(([name, url]) => `${name} ${url}`)
+      .join("\n"),
+    monthlyBudgetUsd: channel.monthlyBudgetUsd === undefined ? "" : String(channel.monthlyBudgetUsd),
+  };
+}
+
+function lines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/** The request body for a draft; `validateChannel` does the checking. */
+function fromDraft(draft: Draft): Record<string, unknown> {
+  return {
+    ...draft,
+    titlePatterns: lines(draft.titlePatterns),
+    bannedWords: lines(draft.bannedWords),
+    sampleThumbnails: lines(draft.sampleThumbnails),
+    footerLinks: Object.fromEntries(
+      lines(draft.footerLinks).map((line) => {
+        const [name, ...rest] = line.split(/\s+/);
+        return [name, rest.join(" ")];
+      })
+    ),
+    overlayFont: draft.overlayFont || undefined,
+    descriptionStyle: draft.descriptionStyle || undefined,
+    descriptionFooter: draft.descriptionFooter || undefined,
+    monthlyBudgetUsd: draft.monthlyBudgetUsd || undefined,
+  };
+}
+
+/** Errors keyed by the field they name, e.g. "footerLinks.gear: ..." under footerLinks. */
+function errorsByField(errors: string[]): Record<string, string[]> {
+  const byField: Record<string, string[]> = {};
+  for (const error of errors) {
+    const field = error.split(/[:.]/)[0];
+    (byField[field] ??= []).push(error);
+  }
+  return byField;
+}
+
+/** The route answers with an attachment, so the page stays put. */
+function downloadExport(id?: string) {
+  window.location.href = id ? `/api/channels/export?ids=${encodeURIComponent(id)}` : "/api/channels/export";
+}
+
+// Uploaded fonts already added to the page, so the preview registers each once
+const previewFonts = new Set<string>();
+
+/** The CSS family that previews an uploaded font; built-ins use the page's own type. */
+function previewFontFamily(font: FontAsset | undefined): string | undefined {
+  if (!font || font.builtIn) return undefined;
+  const family = `overlay-${font.id}`;
+  if (!previewFonts.has(font.file)) {
+    previewFonts.add(font.file);
+    const face = new FontFace(family, `url(${font.file})`);
+    document.fonts.add(face);
+    face.load().catch(() => previewFonts.delete(font.file));
+  }
+  return family;
+}
+
+async function fetchChannels(): Promise<{ channels?: ChannelConfig[]; error?: string }> {
+  try {
+    const data = await (await fetch("/api/channels")).json();
+    return data.success ? { channels: data.channels } : { error: data.error || "Could not load channels" };
+  } catch {
+    return { error: "Failed to connect to the server" };
+  }
+}
+
+export default function ChannelsPage() {
+  const [channels, setChannels] = useState<ChannelConfig[] | null>(null);
+  // Null while adding a new channel
+  const [selected, setSelected] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [showErrors, setShowErrors] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+  const [voiceText, setVoiceText] = useState("");
+  // A CSV upload replaces the pasted text until it is cleared
+  const [voiceFile, setVoiceFile] = useState<{ name: string; samples: VoiceSample[] } | null>(null);
+  const [proposal, setProposal] = useState<VoiceProposal | null>(null);
+  const [picked, setPicked] = useState<VoiceField[]>([]);
+  const [isLearning, setIsLearning] = useState(false);
+  const [fonts, setFonts] = useState<FontAsset[]>([]);
+  const [fontName, setFontName] = useState("");
+  const [fontFile, setFontFile] = useState<File | null>(null);
+  const [licenseFile, setLicenseFile] = useState<File | null>(null);
+
+  const selectChannel = (channel: ChannelConfig | null) => {
+    setSelected(channel?.id ?? null);
+    setDraft(channel ? toDraft(channel) : EMPTY_DRAFT);
+    setShowErrors(false);
+    setError(null);
+    setMessage(null);
+    setVoiceText("");
+    setVoiceFile(null);
+    setProposal(null);
+  };
+
+  useEffect(() => {
+    fetch("/api/fonts")
+      .then((r) => r.json())
+      .then((data) => {
+        if (data.success) setFonts(data.fonts);
+      })
+      .catch(() => {});
+    fetchChannels().then(({ channels, error }) => {
+      if (!channels) {
+        setError(error ?? null);
+        return;
+      }
+      setChannels(channels);
+      if (channels[0]) {
+        setSelected(channels[0].id);
+        setDraft(toDraft(channels[0]));
+      }
+    });
+  }, []);
+
+  const isNew = selected === null;
+  const saved = channels?.find((c) => c.id === selected) ?? null;
+  const validation = validateChannel(fromDraft(draft));
+  const fieldErrors = errorsByField(validation.errors);
+  const changed = !saved || JSON.stringify(toDraft(saved)) !== JSON.stringify(draft);
+
+  const voiceSamples = voiceFile?.samples ?? parsePastedSamples(voiceText);
+  const voiceCountOk = voiceSamples.length >= MIN_VOICE_SAMPLES && voiceSamples.length <= MAX_VOICE_SAMPLES;
+  // Diffed against the form as it stands, so unsaved edits are not lost
+  const voiceBase = validation.value ?? saved;
+  const proposedVoice = proposal && voiceBase ? proposedVoiceFields(voiceBase, proposal) : null;
+  const voiceChanges =
+    proposedVoice && voiceBase
+      ? VOICE_FIELDS.filter((field) => voiceFieldText(voiceBase, field) !== voiceFieldText(proposedVoice, field))
+      : [];
+
+  const update = (key: keyof ChannelConfig, value: string) => setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const request = async (method: "POST" | "PUT" | "DELETE", url: string, body?: unknown) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || "Could not save the channel");
+        return null;
+      }
+      return data;
+    } catch {
+      setError("Failed to connect to the server");
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = async () => {
+    setShowErrors(true);
+    if (!validation.value) return;
+
+    const data = isNew
+      ? await request("POST", "/api/channels", validation.value)
+      : await request("PUT", `/api/channels/${encodeURIComponent(validation.value.id)}`, validation.value);
+    if (!data) return;
+
+    const channel: ChannelConfig = data.channel;
+    setChannels((prev) =>
+      isNew ? [...(prev ?? []), channel] : (prev ?? []).map((c) => (c.id === channel.id ? channel : c))
+    );
+    selectChannel(channel);
+    setMessage(`${channel.name} saved.`);
+  };
+
+  const importFile = async (file: File) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setMessage(null);
+      setError(`${file.name} is not valid JSON.`);
+      return;
+    }
+
+    const data = await request("POST", "/api/channels/import", { file: parsed, overwrite });
+    if (!data) return;
+
+    const { channels: reloaded } = await fetchChannels();
+    if (reloaded) setChannels(reloaded);
+    const parts = [
+      data.created.length > 0 && `added ${data.created.join(", ")}`,
+      data.updated.length > 0 && `replaced ${data.updated.join(", ")}`,
+      data.skipped.length > 0 && `skipped ${data.skipped.join(", ")} (already here; tick Overwrite to replace)`,
+    ].filter(Boolean);
+    setMessage(`Imported: ${parts.join("; ")}.`);
+    const edited = reloaded?.find((c) => c.id === selected);
+    if (edited) setDraft(toDraft(edited));
+  };
+
+  const loadVoiceCsv = async (file: File) => {
+    const { samples, error } = parseVideoListCsv(await file.text());
+    if (error) {
+      setMessage(null);
+      setError(`${file.name}: ${error}`);
+      return;
+    }
+    setError(null);
+    setVoiceFile({ name: file.name, samples });
+  };
+
+  const learnVoice = async () => {
+    if (!saved) return;
+    setIsLearning(true);
+    setError(null);
+    setMessage(null);
+    setProposal(null);
+    try {
+      const response = await fetch(`/api/channels/${encodeURIComponent(saved.id)}/learn-voice`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ samples: voiceSamples }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || "Voice learning failed");
+        return;
+      }
+      const next: VoiceProposal = data.proposal;
+      const base = validation.value ?? saved;
+      const fields = proposedVoiceFields(base, next);
+      setProposal(next);
+      setPicked(VOICE_FIELDS.filter((field) => voiceFieldText(base, field) !== voiceFieldText(fields, field)));
+    } catch {
+      setError("Failed to connect to the server");
+    } finally {
+      setIsLearning(false);
+    }
+  };
+
+  /** Copies the picked fields into the form; Save stores them like any other edit. */
+  const applyVoice = () => {
+    const fields = voiceChanges.filter((field) => picked.includes(field));
+    if (!proposedVoice || fields.length === 0) return;
+    setDraft((prev) => ({
+      ...prev,
+      ...Object.fromEntries(fields.map((field) => [field, voiceFieldText(proposedVoice, field)])),
+    }));
+    setProposal(null);
+    const applied = fields.map((field) => VOICE_FIELD_LABELS[field].toLowerCase()).join(", ");
+    setMessage(`Applied ${applied}. Review the form, then Save.`);
+  };
+
+  const uploadFont = async () => {
+    if (!fontFile || !licenseFile) return;
+    const formData = new FormData();
+    formData.append("font", fontFile);
+    formData.append("license", licenseFile);
+    formData.append("name", fontName);
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await (await fetch("/api/fonts", { method: "POST", body: formData })).json();
+      if (!data.success) {
+        setError(data.error || "Could not upload the font");
+        return;
+      }
+      const font: FontAsset = data.font;
+      setFonts((prev) => [...prev, font]);
+      setFontName("");
+      setFontFile(null);
+      setLicenseFile(null);
+      setMessage(`${font.name} added. Pick it under Overlay font, then Save.`);
+    } catch {
+      setError("Failed to connect to the server");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeFont = async (font: FontAsset) => {
+    if (!window.confirm(`Delete the font ${font.name}?`)) return;
+    const data = await request("DELETE", `/api/fonts/${encodeURIComponent(font.id)}`);
+    if (!data) return;
+    setFonts((prev) => prev.filter((f) => f.id !== font.id));
+    setMessage(`${font.name} deleted.`);
+  };
+
+  const remove = async () => {
+    if (!saved) return;
+    if (!window.confirm(`Delete ${saved.name} and its uploaded reference thumbnails? Its usage history stays.`)) {
+      return;
+    }
+    const data = await request("DELETE", `/api/channels/${encodeURIComponent(saved.id)}`);
+    if (!data) return;
+
+    const remaining = (channels ?? []).filter((c) => c.id !== saved.id);
+    setChannels(remaining);
+    selectChannel(remaining[0] ?? null);
+    setMessage(`${saved.name} deleted.`);
+  };
+
+  const renderField = (field: FieldSpec) => {
+    const value = draft[field.key];
+    const errors = showErrors ? fieldErrors[field.key] : undefined;
+    const disabled = isSaving || (field.locked && !isNew);
+    const inputClass = "w-full px-3 py-1.5 rounded-lg text-xs outline-none";
+
+    return (
+      <div key={field.key}>
+        <label className="block text-xs font-medium mb-1" style={{ color: "var(--text-label)" }}>
+          {field.label}
+        </label>
+        {field.kind === "color" ? (
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={/^#[0-9a-fA-F]{6}$/.test(value) ? value : "#000000"}
+              onChange={(e) => update(field.key, e.target.value.toUpperCase())}
+              disabled={disabled}
+              className="h-8 w-10 rounded cursor-pointer"
+            />
+            <input
+              value={value}
+              onChange={(e) => update(field.key, e.target.value)}
+              disabled={disabled}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        ) : field.kind === "font" ? (
+          <select
+            value={value}
+            onChange={(e) => update(field.key, e.target.value)}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {/* Empty means the default, which is the first built-in */}
+            <option value="">{fonts[0]?.name ?? "Anton"} (default)</option>
+            {fonts.slice(1).map((font) => (
+              <option key={font.id} value={font.id}>
+                {font.name}
+              </option>
+            ))}
+            {value && !fonts.some((font) => font.id === value) && (
+              <option value={value}>{value} (not registered)</option>
+            )}
+          </select>
+        ) : field.kind === "text" || field.kind === "number" ? (
+          <input
+            type={field.kind === "number" ? "number" : "text"}
+            min={field.kind === "number" ? 0 : undefined}
+            step={field.kind === "number" ? "0.01" : undefined}
+            value={value}
+            onChange={(e) => update(field.key, e.target.value)}
+            disabled={disabled}
+            className={inputClass}
+          />
+        ) : (
+          <textarea
+            value={value}
+            onChange={(e) => update(field.key, e.target.value)}
+            rows={field.kind === "textarea" && value.length < 160 ? 2 : 5}
+            spellCheck={field.kind !== "links"}
+            disabled={disabled}
+            className={`${inputClass} resize-y ${field.kind === "links" ? "font-mono" : ""}`}
+          />
+        )}
+        {field.hint && (
+          <p className="text-[11px] mt-1" style={{ color: "var(--text-muted)" }}>
+            {field.hint}
+          </p>
+        )}
+        {errors?.map((message) => (
+          <p key={message} className="text-[11px] mt-1" style={{ color: "var(--red)" }}>
+            {message}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen" style={{ background: "var(--bg-primary)" }}>
+      <header
+        className="sticky top-0 z-50 px-4 h-[49px] flex items-center justify-between"
+        style={{
+          background: "var(--bg-header)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <div className="flex items-center gap-3">
+          <Link href="/" className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            &larr; Back
+          </Link>
+          <h1 className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+            Channels
+          </h1>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="max-w-[1100px] mx-auto px-4 py-8 space-y-4">
+        {!channels && !error && (
+          <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+            Loading channels...
+          </p>
+        )}
+
+        {channels && (
+          <div
+            className="flex gap-1 p-1 rounded-xl overflow-x-auto"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+          >
+            {channels.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => selectChannel(c)}
+                className="flex-1 min-w-[120px] py-2 px-3 rounded-lg text-xs font-medium transition-all whitespace-nowrap"
+                style={{
+                  background: selected === c.id ? c.accentBg : "transparent",
+                  color: selected === c.id ? c.accentColor : "var(--text-secondary)",
+                }}
+              >
+                {c.name}
+              </button>
+            ))}
+            <button
+              onClick={() => selectChannel(null)}
+              className="min-w-[120px] py-2 px-3 rounded-lg text-xs font-medium transition-all whitespace-nowrap"
+              style={{
+                background: isNew ? "var(--accent)" : "transparent",
+                color: isNew ? "white" : "var(--text-secondary)",
+              }}
+            >
+              + New channel
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm whitespace-pre-line"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--red)", color: "var(--red)" }}
+          >
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--green)", color: "var(--green)" }}
+          >
+            {message}
+          </div>
+        )}
+
+        {channels && (
+          <div className="grid gap-4 lg:grid-cols-[1fr_300px]">
+            <div className="space-y-4">
+              {SECTIONS.map((section) => (
+                <section
+                  key={section.title}
+                  className="rounded-2xl p-6 space-y-4 animate-fade-in"
+                  style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+                >
+                  <h2 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
+                    {section.title}
+                  </h2>
+                  {section.fields.map(renderField)}
+                </section>
+              ))}
+
+              {saved && (
+                <section
+                  className="rounded-2xl p-6 space-y-3 animate-fade-in"
+                  style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+                >
+                  <h2 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
+                    Learn voice
+                  </h2>
+                  <p className="text-[11px]" style={{ color: "var(--text-muted)" }}>
+                    Paste {MIN_VOICE_SAMPLES}-{MAX_VOICE_SAMPLES} past videos, one title per line, or a title line
+                    with its description below and a blank line between videos. Or upload the video list CSV
+                    from YouTube Studio, which includes views so the best performers count most.
+                  </p>
+                  {voiceFile ? (
+                    <div
+                      className="flex items-center justify-between text-xs"
+                      style={{ color: "var(--text-secondary)" }}
+                    >
+                      <span>{voiceFile.name}</span>
+                      <button
+                        onClick={() => setVoiceFile(null)}
+                        className="text-xs"
+                        style={{ color: "var(--text-muted)" }}
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  ) : (
+                    <textarea
+                      value={voiceText}
+                      onChange={(e) => setVoiceText(e.target.value)}
+                      rows={6}
+                      disabled={isLearning}
+                      placeholder={"I Automated My Inbox and Here's What Happened\nThe AI Tool That Writes My Proposals\n..."}
+                      className="w-full px-3 py-1.5 rounded-lg text-xs outline-none resize-y"
+                    />
+                  )}
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="flex-1 text-xs"
+                      style={{ color: voiceSamples.length === 0 || voiceCountOk ? "var(--text-muted)" : "var(--red)" }}
+                    >
+                      {voiceSamples.length} video{voiceSamples.length === 1 ? "" : "s"}
+                      {voiceSamples.some((sample) => sample.description) &&
+                        `, ${voiceSamples.filter((sample) => sample.description).length} with descriptions`}
+                    </span>
+                    <label
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium cursor-pointer"
+                      style={{
+                        background: "var(--bg-tertiary)",
+                        color: "var(--text-secondary)",
+                        border: "1px solid var(--border)",
+                      }}
+                    >
+                      Upload CSV
+                      <input
+                        type="file"
+                        accept="text/csv,.csv"
+                        className="hidden"
+                        disabled={isLearning}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) loadVoiceCsv(file);
+                        }}
+                      />
+                    </label>
+                    <button
+                      onClick={learnVoice}
+                      disabled={isLearning || !voiceCountOk}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                      style={{ background: "var(--accent)", color: "white" }}
+                    >
+                      {isLearning ? "Learning..." : "Learn voice"}
+                    </button>
+                  </div>
+
+                  {proposal && proposedVoice && voiceBase && (
+                    <div className="space-y-3 pt-2">
+                      {proposal.summary && (
+                        <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+                          {proposal.summary}
+                        </p>
+                      )}
+                      {voiceChanges.length === 0 && (
+                        <p className="text-xs" style={{ color: "var(--text-muted)" }}>
+                          The proposal matches the current settings.
+                        </p>
+                      )}
+                      {voiceChanges.map((field) => (
+                        <div key={field}>
+                          <label
+                            className="flex items-center gap-2 text-xs font-medium mb-1"
+                            style={{ color: "var(--text-label)" }}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={picked.includes(field)}
+                              onChange={(e) =>
+                                setPicked((prev) =>
+                                  e.target.checked ? [...prev, field] : prev.filter((f) => f !== field)
+                                )
+                              }
+                            />
+                            {VOICE_FIELD_LABELS[field]}
+                          </label>
+                          <pre
+                            className="text-[11px] leading-relaxed rounded-lg overflow-x-auto"
+                            style={{ background: "var(--bg-input)", border: "1px solid var(--border)" }}
+                          >
+                            {diffLines(voiceFieldText(voiceBase, field), voiceFieldText(proposedVoice, field)).map(
+                              (line, i) => (
+                                <div
+                                  key={i}
+                                  className="px-3 whitespace-pre-wrap"
+                                  style={{
+                                    background:
+                                      line.type === "added"
+                                        ? "var(--green-muted)"
+                                        : line.type === "removed"
+                                          ? "var(--red-muted)"
+                                          : "transparent",
+                                    color: line.type === "same" ? "var(--text-muted)" : "var(--text-primary)",
+                                  }}
+                                >
+                                  {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                                  {line.text}
+                                </div>
+                              )
+                            )}
+                          </pre>
+                        </div>
+                      ))}
+                      <div className="flex gap-2">
+                        <button
+                          onClick={applyVoice}
+                          disabled={!voiceChanges.some((field) => picked.includes(field))}
+                          className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                          style={{ background: "var(--accent)", color: "white" }}
+                        >
+                          Apply picked fields to the form
+                        </button>
+                        <button
+                          onClick={() => setProposal(null)}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                          style={{
+                            background: "var(--bg-tertiary)",
+                            color: "var(--text-secondary)",
+                            border: "1px solid var(--border)",
+                          }}
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </section>
+              )}
+            </div>
+
+            <div className="space-y-4 lg:sticky lg:top-[65px] self-start">
+              <section
+                className="rounded-2xl p-6 space-y-4 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                <h2 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
+                  Preview
+                </h2>
+                {/* Same treatments the analyzer and thumbnails use */}
+                <div className="h-2 rounded-full" style={{ background: draft.gradient }} />
+                <div
+                  className="py-2.5 px-4 rounded-lg text-sm font-medium text-center"
+                  style={{
+                    background: draft.accentBg,
+                    color: draft.accentColor,
+                    border: `1px solid ${draft.accentColor}66`,
+                  }}
+                >
+                  {draft.name || "Channel name"}
+                </div>
+                <div
+                  className="aspect-video rounded-lg flex items-center px-4 overflow-hidden"
+                  style={{ background: draft.gradient }}
+                >
+                  <span
+                    className="text-3xl font-black uppercase leading-none"
+                    style={{
+                      fontFamily: previewFontFamily(fonts.find((font) => font.id === draft.overlayFont)),
+                      color: draft.textFill,
+                      WebkitTextStroke: `6px ${draft.textOutline}`,
+                      paintOrder: "stroke fill",
+                    }}
+                  >
+                    Overlay text
+                  </span>
+                </div>
+              </section>
+
+              <section
+                className="rounded-2xl p-6 space-y-3 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                {showErrors && validation.errors.length > 0 && (
+                  <p className="text-xs" style={{ color: "var(--red)" }}>
+                    Fix {validation.errors.length} field{validation.errors.length > 1 ? "s" : ""} before saving.
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={save}
+                    disabled={isSaving || !changed}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                    style={{ background: "var(--accent)", color: "white" }}
+                  >
+                    {isSaving ? "Saving..." : isNew ? "Add channel" : "Save"}
+                  </button>
+                  <button
+                    onClick={() => selectChannel(saved)}
+                    disabled={isSaving || !changed}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                    style={{
+                      background: "var(--bg-tertiary)",
+                      color: "var(--text-secondary)",
+                      border: "1px solid var(--border)",
+                    }}
+                  >
+                    Discard
+                  </button>
+                </div>
+                {saved && (
+                  <button
+                    onClick={remove}
+                    disabled={isSaving || channels.length === 1}
+                    className="w-full px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                    style={{ color: "var(--red)", border: "1px solid var(--border)" }}
+                  >
+                    Delete channel
+                  </button>
+                )}
+              </section>
+
+              <section
+                className="rounded-2xl p-6 space-y-3 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                <h2 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
+                  Export and import
+                </h2>
+                <div className="flex gap-2">
+                  {saved && (
+                    <button
+                      onClick={() => downloadExport(saved.id)}
+                      className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium text-center"
+                      style={{
+                        background: "var(--bg-tertiary)",
+                        color: "var(--text-secondary)",
+                        border: "1px solid var(--border)",
+                      }}
+                    >
+                      Export {saved.name}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => downloadExport()}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium text-center"
+                    style={{
+                      background: "var(--bg-tertiary)",
+                      color: "var(--text-secondary)",
+                      border: "1px solid var(--border)",
+                    }}
+                  >
+                    Export all
+                  </button>
+                </div>
+                <label
+                  className="block w-full px-3 py-1.5 rounded-lg text-xs font-medium text-center cursor-pointer"
+                  style={{ background: "var(--accent)", color: "white" }}
+                >
+                  Import JSON file
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    disabled={isSaving}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) importFile(file);
+                    }}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs" style={{ color: "var(--text-secondary)" }}>
+                  <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />
+                  Overwrite channels that already exist
+                </label>
+                <p className="text-[11px]" style={{ color: "var(--text-muted)" }}>
+                  An export file holds one or more channels. Importing checks every channel first and
+                  saves nothing if any of them has a problem.
+                </p>
+              </section>
+
+              <section
+                className="rounded-2xl p-6 space-y-3 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                <h2 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
+                  Overlay fonts
+                </h2>
+                {fonts.map((font) => (
+                  <div key={font.id} className="flex items-center gap-2 text-xs">
+                    <span className="flex-1" style={{ color: "var(--text-secondary)" }}>
+                      {font.name}
+                    </span>
+                    {font.license.startsWith("https://") ? (
+                      <a href={font.license} target="_blank" rel="noreferrer" style={{ color: "var(--text-muted)" }}>
+                        License
+                      </a>
+                    ) : (
+                      <span style={{ color: "var(--text-muted)" }}>Built in</span>
+                    )}
+                    {!font.builtIn && (
+                      <button
+                        onClick={() => removeFont(font)}
+                        disabled={isSaving}
+                        className="disabled:opacity-40"
+                        style={{ color: "var(--red)" }}
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <input
+                  value={fontName}
+                  onChange={(e) => setFontName(e.target.value)}
+                  placeholder="Name (defaults to the family in the file)"
+                  disabled={isSaving}
+                  className="w-full px-3 py-1.5 rounded-lg text-xs outline-none"
+                />
+                {(
+                  [
+                    ["Font (.ttf or .otf)", ".ttf,.otf", fontFile, setFontFile],
+                    ["License (.txt, .md or .pdf)", ".txt,.md,.pdf", licenseFile, setLicenseFile],
+                  ] as const
+                ).map(([label, accept, file, setFile]) => (
+                  <label
+                    key={label}
+                    className="block w-full px-3 py-1.5 rounded-lg text-xs text-center cursor-pointer truncate"
+                    style={{
+                      background: "var(--bg-tertiary)",
+                      color: file ? "var(--text-primary)" : "var(--text-secondary)",
+                      border: "1px solid var(--border)",
+                    }}
+                  >
+                    {file ? file.name : label}
+                    <input
+                      type="file"
+                      accept={accept}
+                      className="hidden"
+                      disabled={isSaving}
+                      onChange={(e) => {
+                        setFile(e.target.files?.[0] ?? null);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={uploadFont}
+                  disabled={isSaving || !fontFile || !licenseFile}
+                  className="w-full px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                  style={{ background: "var(--accent)", color: "white" }}
+                >
+                  Upload font
+                </button>
+                <p className="text-[11px]" style={{ color: "var(--text-muted)" }}>
+                  Upload only fonts whose license allows use in images you publish. The license file is
+                  kept beside the font so anyone can check.
+                </p>
+              </section>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
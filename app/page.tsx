@@ -1,41 +1,47 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo, useEffect } from "react";
+import Link from "next/link";
 import ThemeToggle from "@/components/ThemeToggle";
 import CopyButton from "@/components/CopyButton";
 import StyleReferences from "@/components/StyleReferences";
 import HeadshotUpload from "@/components/HeadshotUpload";
 import ThumbnailGenerator from "@/components/ThumbnailGenerator";
-import { CHANNELS, type ChannelId } from "@/lib/channels";
-
-// Types
-interface AnalysisData {
-  titles: {
-    curiosity_gap: string[];
-    how_to: string[];
-    negative_warning: string[];
-    short_punchy: string;
-  };
-  description: {
-    hook: string;
-    story_summary: string;
-    key_takeaways: string[];
-    seo_keywords: string[];
-    cta: string;
-    full_text: string;
-  };
-  thumbnail_concepts: {
-    concept: string;
-    text_overlay: string;
-    emotion: string;
-    recommended: boolean;
-  }[];
-  tags: string[];
-  hashtags: string[];
-  timeline: {
-    timestamp: string;
-    title: string;
-  }[];
+import CopyRulesReport from "@/components/CopyRulesReport";
+import RefineChat from "@/components/RefineChat";
+import { BUILT_IN_CHANNELS, type ChannelConfig, type ChannelId } from "@/lib/channels";
+import type { AnalysisData, AnalysisSection, AnalyzeRequest, TitleOptions } from "@/lib/analysis";
+import { ANALYSIS_STREAM_CONTENT_TYPE, readAnalysisStream } from "@/lib/analysis-stream";
+import { validateSection } from "@/lib/analysis-schema";
+import type { CopyLintReport } from "@/lib/copy-rules";
+import type { ChapterIssue } from "@/lib/chapters";
+import { scoreTitle, scoreTitles, type TitleScore } from "@/lib/title-score";
+import { buildUploadPack, formatTimeline, uploadDescription } from "@/lib/upload-pack";
+import { templateVariables } from "@/lib/prompt-template";
+import { TAG_BUDGET, TAG_DROP_LABELS, packTags } from "@/lib/tag-pack";
+import { DESCRIPTION_LIMIT, FOLDS, assembleDescription, checkDescription, type Fold } from "@/lib/description-check";
+import { tagSupport, transcriptTermSet } from "@/lib/keywords";
+import { REGENERATE_LABELS, type RegenerateTarget } from "@/lib/regenerate";
+import { applyRefinePatch, type RefineTurn } from "@/lib/refine";
+import { FORMAT_LABELS, formatTimestamp, parseTranscript } from "@/lib/transcript";
+import {
+  CLEANUP_RULES,
+  DEFAULT_CLEANUP,
+  cleanTranscript,
+  type CleanupOptions,
+  type CleanupRule,
+} from "@/lib/transcript-cleanup";
+
+// Results fill in one section at a time while the analysis streams.
+type PartialAnalysis = Partial<AnalysisData>;
+
+// Everything an undo restores: the results, their lint report and the chat so far
+interface ResultsSnapshot {
+  results: AnalysisData;
+  lint: CopyLintReport;
+  chapters: ChapterIssue[];
+  turns: RefineTurn[];
+  label: string;
 }
 
 type Tab = "titles" | "description" | "thumbnails" | "tags" | "timeline";
@@ -48,95 +54,349 @@ const TABS: { id: Tab; label: string }[] = [
   { id: "timeline", label: "Timeline" },
 ];
 
+const TITLE_BUCKETS: Record<keyof TitleOptions, { label: string; color: string }> = {
+  curiosity_gap: { label: "Curiosity Gap", color: "var(--accent)" },
+  how_to: { label: "How-To / Benefit", color: "var(--green)" },
+  negative_warning: { label: "Negative / Warning", color: "var(--orange)" },
+  short_punchy: { label: "Short & Punchy", color: "var(--purple)" },
+};
+
+// The section each tab waits on while the analysis is still streaming
+const TAB_SECTIONS: Record<Tab, AnalysisSection> = {
+  titles: "titles",
+  description: "description",
+  thumbnails: "thumbnail_concepts",
+  tags: "tags",
+  timeline: "timeline",
+};
+
+// Shown until the stored channels load, and kept if they cannot be
+const FALLBACK_CHANNELS = Object.values(BUILT_IN_CHANNELS);
+
 export default function HomePage() {
   // Form state
   const [transcript, setTranscript] = useState("");
-  const [channel, setChannel] = useState<ChannelId>("techtony");
+  const [channels, setChannels] = useState<ChannelConfig[]>(FALLBACK_CHANNELS);
+  const [channel, setChannel] = useState<ChannelId>(FALLBACK_CHANNELS[0].id);
   const [visualContext, setVisualContext] = useState("");
   const [videoDuration, setVideoDuration] = useState("");
   const [showOptions, setShowOptions] = useState(false);
+  const [cleanup, setCleanup] = useState<CleanupOptions>(DEFAULT_CLEANUP);
 
   // Thumbnail setup state
   const [showThumbnailSetup, setShowThumbnailSetup] = useState(false);
-  const [styleGuide, setStyleGuide] = useState(CHANNELS.techtony.thumbnailStyle);
+  const [styleGuide, setStyleGuide] = useState(FALLBACK_CHANNELS[0].thumbnailStyle);
   const [headshotUrl, setHeadshotUrl] = useState<string | null>(null);
 
   // UI state
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [results, setResults] = useState<AnalysisData | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [results, setResults] = useState<PartialAnalysis | null>(null);
+  const [lintReport, setLintReport] = useState<CopyLintReport | null>(null);
+  const [chapterIssues, setChapterIssues] = useState<ChapterIssue[]>([]);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [promptVersion, setPromptVersion] = useState<number | null>(null);
+  const [keyphrases, setKeyphrases] = useState<string[]>([]);
+  const [analyzedRequest, setAnalyzedRequest] = useState<AnalyzeRequest | null>(null);
+  const [regenerating, setRegenerating] = useState<RegenerateTarget | null>(null);
+  const [refineTurns, setRefineTurns] = useState<RefineTurn[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  const [undoStack, setUndoStack] = useState<ResultsSnapshot[]>([]);
   const [activeTab, setActiveTab] = useState<Tab>("titles");
+  const [sortTitlesByScore, setSortTitlesByScore] = useState(false);
+  // Null until the user picks or edits a title; the first curiosity title stands in until then
+  const [workingTitleDraft, setWorkingTitleDraft] = useState<string | null>(null);
+  // Fills {{sponsor}} in the channel's description footer
+  const [sponsor, setSponsor] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useState<string | null>(null);
 
   const resultsRef = useRef<HTMLDivElement>(null);
 
-  const wordCount = transcript.trim() ? transcript.trim().split(/\s+/).length : 0;
+  // Caption formats are detected as you paste; the server parses them the same way
+  const parsedTranscript = useMemo(() => parseTranscript(transcript), [transcript]);
+  const cleaned = useMemo(() => cleanTranscript(parsedTranscript, cleanup), [parsedTranscript, cleanup]);
+
+  const wordCount = parsedTranscript.text ? parsedTranscript.text.split(/\s+/).length : 0;
   const charCount = transcript.length;
+  const detectedDuration =
+    parsedTranscript.duration !== undefined ? formatTimestamp(parsedTranscript.duration) : null;
 
   const showToast = (message: string) => {
     setToast(message);
     setTimeout(() => setToast(null), 2500);
   };
 
+  useEffect(() => {
+    fetch("/api/channels")
+      .then((response) => response.json())
+      .then((data) => {
+        const loaded: ChannelConfig[] = data.success ? data.channels : [];
+        if (loaded.length === 0) return;
+        setChannels(loaded);
+        setChannel((prev) => (loaded.some((c) => c.id === prev) ? prev : loaded[0].id));
+        // A built-in default style guide gives way to the stored one
+        setStyleGuide((prev) => {
+          const builtIn = FALLBACK_CHANNELS.find((c) => c.thumbnailStyle === prev);
+          if (!builtIn) return prev;
+          return (loaded.find((c) => c.id === builtIn.id) ?? loaded[0]).thumbnailStyle;
+        });
+      })
+      .catch(() => {});
+  }, []);
+
+  const channelConfig = channels.find((c) => c.id === channel) ?? channels[0];
+
   // Update style guide default when channel changes
-  const handleChannelChange = (newChannel: ChannelId) => {
-    setChannel(newChannel);
+  const handleChannelChange = (newChannel: ChannelConfig) => {
+    setChannel(newChannel.id);
     // Only reset to default if user hasn't customized via style analysis
-    if (styleGuide === CHANNELS[channel].thumbnailStyle) {
-      setStyleGuide(CHANNELS[newChannel].thumbnailStyle);
+    if (styleGuide === channelConfig.thumbnailStyle) {
+      setStyleGuide(newChannel.thumbnailStyle);
     }
   };
 
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (fresh = false) => {
     if (!transcript.trim()) return;
 
     setIsAnalyzing(true);
     setError(null);
     setResults(null);
+    setLintReport(null);
+    setChapterIssues([]);
+    setCachedAt(null);
+    setPromptVersion(null);
+    setKeyphrases([]);
+    setRefineTurns([]);
+    setUndoStack([]);
+    setWorkingTitleDraft(null);
+    setSponsor("");
+
+    const analyzeRequest: AnalyzeRequest = {
+      transcript: transcript.trim(),
+      channel,
+      visual_context: visualContext.trim() || undefined,
+      video_duration: videoDuration.trim() || detectedDuration || undefined,
+      cleanup,
+    };
+    setAnalyzedRequest(analyzeRequest);
 
     try {
       const response = await fetch("/api/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...analyzeRequest, fresh }),
+      });
+
+      // Validation and auth failures come back as plain JSON, not a stream
+      const contentType = response.headers.get("content-type") || "";
+      if (!contentType.includes(ANALYSIS_STREAM_CONTENT_TYPE) || !response.body) {
+        const data = await response.json();
+        setError(data.error || "Analysis failed");
+        return;
+      }
+
+      setActiveTab("titles");
+      let scrolled = false;
+      // Set by the done or error event; a stream that ends without either was cut off
+      let finished = false;
+
+      await readAnalysisStream(response.body, (event) => {
+        if (event.type === "progress") {
+          setProgress(event.message);
+          return;
+        }
+
+        if (event.type === "section") {
+          setProgress(null);
+
+          // A section that fails the schema waits for the repaired final result
+          const { value } = validateSection(event.key, event.value);
+          if (value === null) return;
+          setResults((prev) => ({ ...prev, [event.key]: value }));
+
+          // Scroll to results once the first section lands
+          if (!scrolled) {
+            scrolled = true;
+            setTimeout(() => {
+              resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+            }, 100);
+          }
+          return;
+        }
+
+        if (event.type === "done") {
+          finished = true;
+          setResults(event.data);
+          setLintReport(event.lint);
+          setChapterIssues(event.chapters);
+          setCachedAt(event.cached_at);
+          setPromptVersion(event.prompt_versions.analysis_system ?? null);
+          setKeyphrases(event.keyphrases);
+          // A cached result arrives whole, so nothing has scrolled yet
+          if (!scrolled) {
+            setTimeout(() => {
+              resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+            }, 100);
+          }
+          return;
+        }
+
+        finished = true;
+        setError(event.error || "Analysis failed");
+        setResults(null);
+      });
+
+      // Usually the function hitting its time limit on a long transcript
+      if (!finished) {
+        setError("The analysis stopped before it finished. Try again, or shorten the transcript.");
+        setResults(null);
+      }
+    } catch {
+      setError("Failed to connect to the server");
+    } finally {
+      setIsAnalyzing(false);
+      setProgress(null);
+    }
+  };
+
+  // Saves the current state so the next change can be undone
+  const pushSnapshot = (label: string) => {
+    if (!results || !lintReport) return;
+    setUndoStack((prev) => [
+      ...prev,
+      {
+        results: results as AnalysisData,
+        lint: lintReport,
+        chapters: chapterIssues,
+        turns: refineTurns,
+        label,
+      },
+    ]);
+  };
+
+  const handleUndo = () => {
+    const snapshot = undoStack[undoStack.length - 1];
+    if (!snapshot) return;
+    setResults(snapshot.results);
+    setLintReport(snapshot.lint);
+    setChapterIssues(snapshot.chapters);
+    setRefineTurns(snapshot.turns);
+    setUndoStack((prev) => prev.slice(0, -1));
+    showToast(`Undid: ${snapshot.label}`);
+  };
+
+  const handleRegenerate = async (target: RegenerateTarget) => {
+    if (!analyzedRequest || !results || regenerating) return;
+
+    setRegenerating(target);
+
+    try {
+      const response = await fetch("/api/regenerate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...analyzedRequest, target, previous: results }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        showToast(data.error || "Regeneration failed");
+        return;
+      }
+
+      // Only the regenerated section changes; fixes reported for the rest stay
+      pushSnapshot(`regenerate ${REGENERATE_LABELS[target]}`);
+      setResults((prev) => ({ ...prev, ...data.patch }));
+      setLintReport((prev) => ({
+        ...data.lint,
+        fixed: [
+          ...(prev?.fixed ?? []).filter((v) => !v.path.startsWith(target)),
+          ...data.lint.fixed,
+        ],
+      }));
+      if (data.chapters) setChapterIssues(data.chapters);
+      showToast("Section regenerated");
+    } catch {
+      showToast("Failed to connect to the server");
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleRefine = async (instruction: string): Promise<boolean> => {
+    if (!analyzedRequest || !results || isRefining) return false;
+
+    setIsRefining(true);
+
+    try {
+      const response = await fetch("/api/refine", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          transcript: transcript.trim(),
-          channel,
-          visual_context: visualContext.trim() || undefined,
-          video_duration: videoDuration.trim() || undefined,
+          ...analyzedRequest,
+          instruction,
+          current: results,
+          history: refineTurns,
         }),
       });
 
       const data = await response.json();
 
       if (!data.success) {
-        setError(data.error || "Analysis failed");
-        return;
+        showToast(data.error || "Could not apply that change");
+        return false;
       }
 
-      // Normalize tags/hashtags: AI sometimes returns a single comma-separated string
-      const normalized = { ...data.data };
-      if (typeof normalized.tags === "string") {
-        normalized.tags = normalized.tags.split(",").map((t: string) => t.trim()).filter(Boolean);
+      const turn: RefineTurn = { instruction, summary: data.summary };
+      if (data.changes.length === 0) {
+        setRefineTurns((prev) => [...prev, turn]);
+        return true;
       }
-      if (typeof normalized.hashtags === "string") {
-        normalized.hashtags = normalized.hashtags.split(",").map((t: string) => t.trim()).filter(Boolean);
+
+      const { data: refined } = applyRefinePatch(results as AnalysisData, data.changes);
+      if (!refined) {
+        showToast("AI returned an invalid change. Try rephrasing.");
+        return false;
       }
-      setResults(normalized);
-      setActiveTab("titles");
 
-      // Scroll to results
-      setTimeout(() => {
-        resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
-      }, 100);
+      // Fixes reported for fields the patch replaced are stale
+      const changedPaths: string[] = data.changes.map((c: { path: string }) => c.path);
+      pushSnapshot(instruction);
+      setResults(refined);
+      setLintReport((prev) => ({
+        ...data.lint,
+        fixed: [
+          ...(prev?.fixed ?? []).filter((v) => !changedPaths.some((path) => v.path.startsWith(path))),
+          ...data.lint.fixed,
+        ],
+      }));
+      if (data.chapters) setChapterIssues(data.chapters);
+      setRefineTurns((prev) => [...prev, turn]);
+      return true;
     } catch {
-      setError("Failed to connect to the server");
+      showToast("Failed to connect to the server");
+      return false;
     } finally {
-      setIsAnalyzing(false);
+      setIsRefining(false);
     }
   };
 
+  // Regeneration and refinement need the complete analysis as context
+  const canRegenerate =
+    !isAnalyzing && !regenerating && !isRefining && !!results && !!lintReport;
+
   const handleNewAnalysis = () => {
     setResults(null);
+    setLintReport(null);
+    setChapterIssues([]);
+    setCachedAt(null);
+    setPromptVersion(null);
+    setKeyphrases([]);
+    setRefineTurns([]);
+    setUndoStack([]);
+    setWorkingTitleDraft(null);
+    setSponsor("");
     setError(null);
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
@@ -146,12 +406,61 @@ export default function HomePage() {
     window.location.href = "/login";
   };
 
-  const timelineFormatted = results?.timeline
-    ?.map((ch) => `${ch.timestamp} ${ch.title}`)
-    .join("\n") || "";
+  const timelineFormatted = results?.timeline ? formatTimeline(results.timeline) : "";
+
+  // Scored against the channel the results were generated for
+  const scoredChannel = channels.find((c) => c.id === analyzedRequest?.channel) ?? channelConfig;
+  const titleScores = useMemo(
+    () =>
+      results?.titles
+        ? scoreTitles(results.titles, results.description?.seo_keywords ?? [], scoredChannel)
+        : [],
+    [results, scoredChannel]
+  );
+
+  const scoreFor = (title: string) => titleScores.find((s) => s.title === title);
+
+  // Tags are checked against the transcript the results came from
+  const analyzedTerms = useMemo(
+    () => transcriptTermSet(analyzedRequest ? parseTranscript(analyzedRequest.transcript).text : ""),
+    [analyzedRequest]
+  );
+  const unsupportedTags = (results?.tags ?? []).filter((tag) => !tagSupport(tag, analyzedTerms));
+  const tagPack = useMemo(
+    () => packTags(results?.tags ?? [], { keyphrases, transcriptTerms: analyzedTerms }),
+    [results?.tags, keyphrases, analyzedTerms]
+  );
+
+  const handleFixDescription = () => {
+    if (!results?.description) return;
+    pushSnapshot("fix description");
+    const description = {
+      ...results.description,
+      full_text: assembleDescription(results.description, results.hashtags ?? []),
+    };
+    setResults((prev) => ({ ...prev, description }));
+    showToast("Description rebuilt from its parts");
+  };
+
+  // The title the thumbnails, exports and overlay checks are built around
+  const workingTitle = workingTitleDraft ?? results?.titles?.curiosity_gap?.[0] ?? "";
+  const workingTitleScore = workingTitle
+    ? scoreTitle(workingTitle, results?.description?.seo_keywords ?? [], scoredChannel)
+    : undefined;
 
-  // Get the first selected title for passing to thumbnail generator as video_title
-  const selectedTitle = results?.titles?.curiosity_gap?.[0] || "";
+  // The footer and chapters are pasted in with the description, so they count too
+  const descriptionOptions = useMemo(() => ({ channel: scoredChannel, sponsor }), [scoredChannel, sponsor]);
+  const descriptionReport = useMemo(
+    () =>
+      results?.description && results.timeline
+        ? checkDescription(results as AnalysisData, workingTitle, descriptionOptions)
+        : null,
+    [results, workingTitle, descriptionOptions]
+  );
+  const pastedDescription =
+    results?.description && results.timeline
+      ? uploadDescription(results as AnalysisData, workingTitle, descriptionOptions)
+      : results?.description?.full_text ?? "";
 
   return (
     <div className="min-h-screen" style={{ background: "var(--bg-primary)" }}>
@@ -177,6 +486,39 @@ export default function HomePage() {
           </span>
         </div>
         <div className="flex items-center gap-2">
+          <Link
+            href="/usage"
+            className="px-2.5 py-1 rounded-md text-xs transition-colors"
+            style={{
+              background: "var(--bg-tertiary)",
+              color: "var(--text-secondary)",
+              border: "1px solid var(--border)",
+            }}
+          >
+            Usage
+          </Link>
+          <Link
+            href="/prompts"
+            className="px-2.5 py-1 rounded-md text-xs transition-colors"
+            style={{
+              background: "var(--bg-tertiary)",
+              color: "var(--text-secondary)",
+              border: "1px solid var(--border)",
+            }}
+          >
+            Prompts
+          </Link>
+          <Link
+            href="/channels"
+            className="px-2.5 py-1 rounded-md text-xs transition-colors"
+            style={{
+              background: "var(--bg-tertiary)",
+              color: "var(--text-secondary)",
+              border: "1px solid var(--border)",
+            }}
+          >
+            Channels
+          </Link>
           <ThemeToggle />
           <button
             onClick={handleLogout}
@@ -198,7 +540,7 @@ export default function HomePage() {
           <div className="generating-banner-bar" />
           <div className="generating-banner-content">
             <span className="animate-pulse-dot">&#9679;</span>
-            Analyzing transcript with AI...
+            {progress || "Analyzing transcript with AI..."}
           </div>
         </div>
       )}
@@ -242,9 +584,12 @@ export default function HomePage() {
             <div className="px-6 pb-6 space-y-5 border-t animate-fade-in" style={{ borderColor: "var(--border)" }}>
               <div className="pt-4">
                 <StyleReferences
-                  channel={channel}
+                  channel={channelConfig}
                   styleGuide={styleGuide}
                   onStyleGuideChange={setStyleGuide}
+                  onChannelChange={(updated) =>
+                    setChannels((prev) => prev.map((c) => (c.id === updated.id ? updated : c)))
+                  }
                 />
               </div>
               <div
@@ -274,12 +619,12 @@ export default function HomePage() {
               Channel
             </label>
             <div className="flex flex-wrap gap-2">
-              {Object.values(CHANNELS).map((c) => {
+              {channels.map((c) => {
                 const active = channel === c.id;
                 return (
                   <button
                     key={c.id}
-                    onClick={() => handleChannelChange(c.id)}
+                    onClick={() => handleChannelChange(c)}
                     className="flex-1 min-w-[110px] py-2.5 px-4 rounded-lg text-sm font-medium transition-all"
                     style={{
                       background: active ? c.accentBg : "var(--bg-tertiary)",
@@ -301,7 +646,19 @@ export default function HomePage() {
                 Video Transcript
               </label>
               <span className="text-xs" style={{ color: "var(--text-muted)" }}>
+                {parsedTranscript.format !== "plain" && (
+                  <>
+                    {FORMAT_LABELS[parsedTranscript.format]} &middot;{" "}
+                    {parsedTranscript.segments.length.toLocaleString()} cues &middot;{" "}
+                  </>
+                )}
                 {wordCount.toLocaleString()} words &middot; {charCount.toLocaleString()} chars
+                {transcript.trim() && cleaned.after < cleaned.before && (
+                  <span title="Characters sent to the model, before and after cleanup">
+                    {" "}
+                    &middot; cleanup {cleaned.before.toLocaleString()} &rarr; {cleaned.after.toLocaleString()}
+                  </span>
+                )}
               </span>
             </div>
             <textarea
@@ -336,6 +693,29 @@ export default function HomePage() {
 
             {showOptions && (
               <div className="mt-3 space-y-3 animate-fade-in">
+                <div>
+                  <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--text-label)" }}>
+                    Transcript Cleanup
+                  </label>
+                  <div className="grid gap-1.5 sm:grid-cols-2">
+                    {(Object.keys(CLEANUP_RULES) as CleanupRule[]).map((rule) => (
+                      <label key={rule} className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={cleanup[rule]}
+                          onChange={(e) => setCleanup((prev) => ({ ...prev, [rule]: e.target.checked }))}
+                          className="w-3.5 h-3.5 mt-0.5 rounded"
+                          style={{ accentColor: channelConfig.accentColor }}
+                          disabled={isAnalyzing}
+                        />
+                        <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+                          {CLEANUP_RULES[rule].label}
+                          <span style={{ color: "var(--text-muted)" }}> &middot; {CLEANUP_RULES[rule].description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
                 <div>
                   <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--text-label)" }}>
                     Visual Context (optional)
@@ -357,7 +737,7 @@ export default function HomePage() {
                     type="text"
                     value={videoDuration}
                     onChange={(e) => setVideoDuration(e.target.value)}
-                    placeholder="e.g., 12:34"
+                    placeholder={detectedDuration ? `${detectedDuration} (from captions)` : "e.g., 12:34"}
                     className="w-full px-4 py-3 rounded-lg text-sm outline-none"
                     disabled={isAnalyzing}
                   />
@@ -382,11 +762,11 @@ export default function HomePage() {
 
           {/* Analyze Button */}
           <button
-            onClick={handleAnalyze}
+            onClick={() => handleAnalyze()}
             disabled={isAnalyzing || !transcript.trim()}
             className="w-full py-3.5 rounded-lg text-sm font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
             style={{
-              background: CHANNELS[channel].gradient,
+              background: channelConfig.gradient,
               color: "white",
             }}
           >
@@ -409,22 +789,50 @@ export default function HomePage() {
           <div ref={resultsRef} className="mt-8 animate-fade-in">
             {/* Results Header */}
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
-                Analysis Results
-              </h2>
-              <button
-                onClick={handleNewAnalysis}
-                className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
-                style={{
-                  background: "var(--bg-tertiary)",
-                  color: "var(--text-secondary)",
-                  border: "1px solid var(--border)",
-                }}
-              >
-                New Analysis
-              </button>
+              <div className="flex items-baseline gap-2">
+                <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                  Analysis Results
+                </h2>
+                {promptVersion !== null && (
+                  <span className="text-[10px]" style={{ color: "var(--text-muted)" }}>
+                    prompt v{promptVersion}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {lintReport && (
+                  <CopyButton
+                    text={buildUploadPack(workingTitle, results as AnalysisData, {
+                      ...descriptionOptions,
+                      tagText: tagPack.text,
+                    })}
+                    label="Copy upload pack"
+                  />
+                )}
+                <button
+                  onClick={handleNewAnalysis}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                  style={{
+                    background: "var(--bg-tertiary)",
+                    color: "var(--text-secondary)",
+                    border: "1px solid var(--border)",
+                  }}
+                >
+                  New Analysis
+                </button>
+              </div>
             </div>
 
+            {cachedAt && (
+              <CachedNotice
+                cachedAt={cachedAt}
+                disabled={isAnalyzing}
+                onRunFresh={() => handleAnalyze(true)}
+              />
+            )}
+
+            {lintReport && <CopyRulesReport report={lintReport} />}
+
             {/* Tab Navigation */}
             <div
               className="flex gap-1 p-1 rounded-xl mb-6 overflow-x-auto"
@@ -438,6 +846,7 @@ export default function HomePage() {
                   style={{
                     background: activeTab === tab.id ? "var(--accent)" : "transparent",
                     color: activeTab === tab.id ? "white" : "var(--text-secondary)",
+                    opacity: results[TAB_SECTIONS[tab.id]] ? 1 : 0.5,
                   }}
                 >
                   {tab.label}
@@ -450,49 +859,186 @@ export default function HomePage() {
               className="rounded-2xl p-6"
               style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
             >
+              {/* Section still streaming */}
+              {!results[TAB_SECTIONS[activeTab]] && (
+                <SectionPending label={TABS.find((t) => t.id === activeTab)?.label ?? ""} />
+              )}
+
               {/* TITLES TAB */}
-              {activeTab === "titles" && (
+              {activeTab === "titles" && results.titles && (
                 <div className="space-y-6 stagger-children">
-                  <TitleGroup
-                    label="Curiosity Gap"
-                    titles={results.titles.curiosity_gap}
-                    color="var(--accent)"
-                    onCopy={() => showToast("Title copied")}
-                  />
-                  <TitleGroup
-                    label="How-To / Benefit"
-                    titles={results.titles.how_to}
-                    color="var(--green)"
-                    onCopy={() => showToast("Title copied")}
-                  />
-                  <TitleGroup
-                    label="Negative / Warning"
-                    titles={results.titles.negative_warning}
-                    color="var(--orange)"
-                    onCopy={() => showToast("Title copied")}
-                  />
-                  <div>
-                    <span
-                      className="inline-block text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded mb-2"
-                      style={{ background: "var(--purple-muted)", color: "var(--purple)" }}
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => setSortTitlesByScore(!sortTitlesByScore)}
+                      className="px-2 py-1 rounded-md text-xs font-medium transition-all"
+                      style={{
+                        background: sortTitlesByScore ? "var(--accent-muted)" : "var(--bg-tertiary)",
+                        color: sortTitlesByScore ? "var(--accent)" : "var(--text-secondary)",
+                        border: "1px solid var(--border)",
+                      }}
                     >
-                      Short &amp; Punchy
-                    </span>
-                    <TitleCard
-                      title={results.titles.short_punchy}
-                      onCopy={() => showToast("Title copied")}
+                      {sortTitlesByScore ? "Grouped by type" : "Sort by score"}
+                    </button>
+                    <RegenerateButton
+                      label="Regenerate all titles"
+                      busy={regenerating === "titles"}
+                      disabled={!canRegenerate}
+                      onClick={() => handleRegenerate("titles")}
                     />
                   </div>
+
+                  <WorkingTitle
+                    title={workingTitle}
+                    score={workingTitleScore}
+                    onChange={setWorkingTitleDraft}
+                  />
+
+                  {sortTitlesByScore ? (
+                    <div className="space-y-2">
+                      {[...titleScores]
+                        .sort((a, b) => b.total - a.total)
+                        .map((scored, i) => (
+                          <TitleCard
+                            key={i}
+                            title={scored.title}
+                            score={scored}
+                            tag={TITLE_BUCKETS[scored.bucket]}
+                            selected={scored.title === workingTitle}
+                            onSelect={() => setWorkingTitleDraft(scored.title)}
+                            onCopy={() => showToast("Title copied")}
+                          />
+                        ))}
+                    </div>
+                  ) : (
+                    <>
+                      {(["curiosity_gap", "how_to", "negative_warning"] as const).map((bucket) => (
+                        <TitleGroup
+                          key={bucket}
+                          label={TITLE_BUCKETS[bucket].label}
+                          titles={results.titles![bucket]}
+                          color={TITLE_BUCKETS[bucket].color}
+                          scoreFor={scoreFor}
+                          workingTitle={workingTitle}
+                          onSelect={setWorkingTitleDraft}
+                          onCopy={() => showToast("Title copied")}
+                          regenerate={
+                            <RegenerateButton
+                              busy={regenerating === `titles.${bucket}`}
+                              disabled={!canRegenerate}
+                              onClick={() => handleRegenerate(`titles.${bucket}`)}
+                            />
+                          }
+                        />
+                      ))}
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <span
+                            className="inline-block text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded"
+                            style={{ background: "var(--purple-muted)", color: "var(--purple)" }}
+                          >
+                            Short &amp; Punchy
+                          </span>
+                          <RegenerateButton
+                            busy={regenerating === "titles.short_punchy"}
+                            disabled={!canRegenerate}
+                            onClick={() => handleRegenerate("titles.short_punchy")}
+                          />
+                        </div>
+                        <TitleCard
+                          title={results.titles.short_punchy}
+                          score={scoreFor(results.titles.short_punchy)}
+                          selected={results.titles.short_punchy === workingTitle}
+                          onSelect={() => setWorkingTitleDraft(results.titles!.short_punchy)}
+                          onCopy={() => showToast("Title copied")}
+                        />
+                      </div>
+                    </>
+                  )}
                 </div>
               )}
 
               {/* DESCRIPTION TAB */}
-              {activeTab === "description" && (
+              {activeTab === "description" && results.description && (
                 <div className="space-y-5">
-                  <div className="flex justify-end">
-                    <CopyButton text={results.description.full_text} label="Copy Full Description" size="md" />
+                  <div className="flex justify-end gap-2">
+                    <RegenerateButton
+                      busy={regenerating === "description"}
+                      disabled={!canRegenerate}
+                      onClick={() => handleRegenerate("description")}
+                    />
+                    <CopyButton text={pastedDescription} label="Copy Full Description" size="md" />
                   </div>
 
+                  {descriptionReport && (
+                    <div
+                      className="rounded-xl p-4 space-y-3"
+                      style={{ background: "var(--bg-input)", border: "1px solid var(--border)" }}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <h4 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
+                          Before &ldquo;Show more&rdquo;
+                        </h4>
+                        <span
+                          className="text-xs tabular-nums"
+                          style={{
+                            color: descriptionReport.length > DESCRIPTION_LIMIT ? "var(--red)" : "var(--text-muted)",
+                          }}
+                        >
+                          {descriptionReport.length}/{DESCRIPTION_LIMIT} with chapters
+                        </span>
+                      </div>
+                      <div className="grid gap-3 md:grid-cols-2">
+                        {(Object.keys(FOLDS) as Fold[]).map((fold) => {
+                          const preview = descriptionReport.folds[fold];
+                          return (
+                            <div key={fold}>
+                              <p className="text-[11px] mb-1" style={{ color: "var(--text-muted)" }}>
+                                {FOLDS[fold].label} &middot; about {FOLDS[fold].chars} characters
+                                {!preview.hookVisible && (
+                                  <span style={{ color: "var(--orange)" }}> &middot; hook cut off</span>
+                                )}
+                              </p>
+                              <p
+                                className="text-sm leading-relaxed whitespace-pre-wrap rounded-lg px-3 py-2"
+                                style={{ background: "var(--bg-card)", color: "var(--text-primary)" }}
+                              >
+                                {preview.visible}
+                                {preview.truncated && (
+                                  <span className="font-medium" style={{ color: "var(--text-secondary)" }}>
+                                    {" "}Show more
+                                  </span>
+                                )}
+                              </p>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      {descriptionReport.issues.length > 0 && (
+                        <div className="flex items-start justify-between gap-3">
+                          <ul className="space-y-1 text-xs">
+                            {descriptionReport.issues.map((issue) => (
+                              <li
+                                key={issue.rule}
+                                style={{ color: issue.severity === "error" ? "var(--red)" : "var(--orange)" }}
+                              >
+                                {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                          {descriptionReport.issues.some((issue) => issue.fixable) && (
+                            <button
+                              onClick={handleFixDescription}
+                              className="shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                              style={{ background: "var(--accent)", color: "white" }}
+                            >
+                              Rebuild from parts
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Full assembled description */}
                   <div
                     className="rounded-xl p-4 text-sm leading-relaxed whitespace-pre-wrap"
@@ -503,7 +1049,26 @@ export default function HomePage() {
                     }}
                   >
                     {results.description.full_text}
+                    {/* Chapters and footer come from the app, not the model */}
+                    <span style={{ color: "var(--text-muted)" }}>
+                      {pastedDescription.slice(results.description.full_text.length)}
+                    </span>
                   </div>
+                  {templateVariables(scoredChannel.descriptionFooter ?? "").includes("sponsor") && (
+                    <div className="flex items-center gap-2">
+                      <label htmlFor="sponsor" className="text-xs" style={{ color: "var(--text-label)" }}>
+                        Sponsor
+                      </label>
+                      <input
+                        id="sponsor"
+                        value={sponsor}
+                        onChange={(e) => setSponsor(e.target.value)}
+                        placeholder="None (leaves the disclosure out)"
+                        maxLength={100}
+                        className="flex-1 px-3 py-1.5 rounded-lg text-xs outline-none"
+                      />
+                    </div>
+                  )}
 
                   {/* Individual sections */}
                   <div className="space-y-4 pt-2">
@@ -544,17 +1109,25 @@ export default function HomePage() {
               )}
 
               {/* THUMBNAILS TAB */}
-              {activeTab === "thumbnails" && (
+              {activeTab === "thumbnails" && results.thumbnail_concepts && (
                 <div className="space-y-4">
+                  <div className="flex justify-end">
+                    <RegenerateButton
+                      label="Regenerate concepts"
+                      busy={regenerating === "thumbnail_concepts"}
+                      disabled={!canRegenerate}
+                      onClick={() => handleRegenerate("thumbnail_concepts")}
+                    />
+                  </div>
                   <div className="grid gap-4 md:grid-cols-3">
-                    {results.thumbnail_concepts.map((thumb, i) => (
+                    {results.thumbnail_concepts.map((thumb) => (
                       <ThumbnailGenerator
-                        key={i}
+                        key={thumb.concept}
                         concept={thumb}
-                        channel={channel}
+                        channel={channelConfig}
                         styleGuide={styleGuide}
                         headshotUrl={headshotUrl}
-                        videoTitle={selectedTitle}
+                        videoTitle={workingTitle}
                       />
                     ))}
                   </div>
@@ -567,65 +1140,164 @@ export default function HomePage() {
               )}
 
               {/* TAGS TAB */}
-              {activeTab === "tags" && (
+              {activeTab === "tags" && results.tags && (
                 <div className="space-y-6">
                   <div>
                     <div className="flex items-center justify-between mb-3">
                       <h4 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
                         Tags ({results.tags.length})
                       </h4>
-                      <CopyButton text={results.tags.join(", ")} label="Copy All" />
+                      <div className="flex gap-2">
+                        <RegenerateButton
+                          busy={regenerating === "tags"}
+                          disabled={!canRegenerate}
+                          onClick={() => handleRegenerate("tags")}
+                        />
+                        <CopyButton text={tagPack.text} label="Copy for Studio" />
+                      </div>
                     </div>
                     <div className="flex flex-wrap gap-2">
-                      {results.tags.map((tag, i) => (
-                        <button
-                          key={i}
-                          onClick={() => {
-                            navigator.clipboard.writeText(tag);
-                            showToast(`"${tag}" copied`);
-                          }}
-                          className="px-3 py-1.5 rounded-lg text-sm transition-colors cursor-pointer"
-                          style={{
-                            background: "var(--bg-tertiary)",
-                            color: "var(--text-secondary)",
-                            border: "1px solid var(--border)",
-                          }}
-                        >
-                          {tag}
-                        </button>
-                      ))}
+                      {results.tags.map((tag, i) => {
+                        const unsupported = unsupportedTags.includes(tag);
+                        return (
+                          <button
+                            key={i}
+                            onClick={() => {
+                              navigator.clipboard.writeText(tag);
+                              showToast(`"${tag}" copied`);
+                            }}
+                            title={unsupported ? "The transcript never says this" : undefined}
+                            className="px-3 py-1.5 rounded-lg text-sm transition-colors cursor-pointer"
+                            style={{
+                              background: "var(--bg-tertiary)",
+                              color: "var(--text-secondary)",
+                              border: `1px ${unsupported ? "dashed var(--orange)" : "solid var(--border)"}`,
+                            }}
+                          >
+                            {tag}
+                          </button>
+                        );
+                      })}
                     </div>
+                    {unsupportedTags.length > 0 && (
+                      <p className="text-xs mt-2" style={{ color: "var(--orange)" }}>
+                        {unsupportedTags.length} tag{unsupportedTags.length > 1 ? "s have" : " has"} no support
+                        in the transcript (dashed). Check the video really covers{" "}
+                        {unsupportedTags.length > 1 ? "them" : "it"} before publishing.
+                      </p>
+                    )}
                   </div>
 
                   <div>
                     <div className="flex items-center justify-between mb-3">
                       <h4 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
-                        Hashtags
+                        Studio tag field
                       </h4>
-                      <CopyButton text={results.hashtags.join(" ")} label="Copy" />
+                      <span
+                        className="text-xs tabular-nums"
+                        style={{ color: tagPack.remaining < 25 ? "var(--orange)" : "var(--text-muted)" }}
+                      >
+                        {tagPack.used}/{TAG_BUDGET} &middot; {tagPack.remaining} left
+                      </span>
                     </div>
-                    <div className="flex flex-wrap gap-2">
-                      {results.hashtags.map((hash, i) => (
-                        <span
-                          key={i}
-                          className="px-3 py-1.5 rounded-lg text-sm font-medium"
-                          style={{ background: "var(--accent-muted)", color: "var(--accent)" }}
-                        >
-                          {hash}
-                        </span>
-                      ))}
+                    <div
+                      className="h-1 rounded-full overflow-hidden mb-3"
+                      style={{ background: "var(--bg-input)" }}
+                    >
+                      <div
+                        className="h-full"
+                        style={{ width: `${(tagPack.used / TAG_BUDGET) * 100}%`, background: "var(--accent)" }}
+                      />
                     </div>
+                    <pre
+                      className="text-xs whitespace-pre-wrap break-words rounded-lg px-3 py-2"
+                      style={{ background: "var(--bg-input)", color: "var(--text-secondary)" }}
+                    >
+                      {tagPack.text || "No tags fit."}
+                    </pre>
+                    {tagPack.tags.some((tag) => tag.fromTranscript) && (
+                      <p className="text-xs mt-2" style={{ color: "var(--text-muted)" }}>
+                        Filled with transcript keyphrases:{" "}
+                        {tagPack.tags
+                          .filter((tag) => tag.fromTranscript)
+                          .map((tag) => tag.tag)
+                          .join(", ")}
+                      </p>
+                    )}
+                    {tagPack.dropped.length > 0 && (
+                      <div className="mt-3">
+                        <p className="text-xs mb-1.5" style={{ color: "var(--orange)" }}>
+                          Left out ({tagPack.dropped.length})
+                        </p>
+                        <ul className="space-y-0.5 text-xs" style={{ color: "var(--text-muted)" }}>
+                          {tagPack.dropped.map(({ tag, reason }, i) => (
+                            <li key={i}>
+                              <span style={{ color: "var(--text-secondary)" }}>{tag}</span> &middot;{" "}
+                              {TAG_DROP_LABELS[reason]}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
+
+                  {keyphrases.length > 0 && (
+                    <div>
+                      <h4 className="text-xs font-medium mb-3" style={{ color: "var(--text-label)" }}>
+                        Transcript keyphrases
+                      </h4>
+                      <div className="flex flex-wrap gap-1.5">
+                        {keyphrases.map((phrase) => (
+                          <span
+                            key={phrase}
+                            className="px-2 py-1 rounded text-xs"
+                            style={{ background: "var(--bg-input)", color: "var(--text-muted)" }}
+                          >
+                            {phrase}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {results.hashtags && (
+                    <div>
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
+                          Hashtags
+                        </h4>
+                        <CopyButton text={results.hashtags.join(" ")} label="Copy" />
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {results.hashtags.map((hash, i) => (
+                          <span
+                            key={i}
+                            className="px-3 py-1.5 rounded-lg text-sm font-medium"
+                            style={{ background: "var(--accent-muted)", color: "var(--accent)" }}
+                          >
+                            {hash}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
               {/* TIMELINE TAB */}
-              {activeTab === "timeline" && (
+              {activeTab === "timeline" && results.timeline && (
                 <div className="space-y-4">
-                  <div className="flex justify-end">
+                  <div className="flex justify-end gap-2">
+                    <RegenerateButton
+                      busy={regenerating === "timeline"}
+                      disabled={!canRegenerate}
+                      onClick={() => handleRegenerate("timeline")}
+                    />
                     <CopyButton text={timelineFormatted} label="Copy for YouTube" size="md" />
                   </div>
 
+                  <ChapterWarnings issues={chapterIssues} />
+
                   <div className="space-y-1">
                     {results.timeline.map((ch, i) => (
                       <div
@@ -666,6 +1338,16 @@ export default function HomePage() {
                 </div>
               )}
             </div>
+
+            {/* Conversational refinement */}
+            <RefineChat
+              turns={refineTurns}
+              sending={isRefining}
+              disabled={!canRegenerate}
+              undoLabel={undoStack[undoStack.length - 1]?.label ?? null}
+              onSend={handleRefine}
+              onUndo={handleUndo}
+            />
           </div>
         )}
       </main>
@@ -682,31 +1364,65 @@ function TitleGroup({
   label,
   titles,
   color,
+  scoreFor,
+  workingTitle,
+  onSelect,
   onCopy,
+  regenerate,
 }: {
   label: string;
   titles: string[];
   color: string;
+  scoreFor: (title: string) => TitleScore | undefined;
+  workingTitle: string;
+  onSelect: (title: string) => void;
   onCopy: () => void;
+  regenerate?: React.ReactNode;
 }) {
   return (
     <div>
-      <span
-        className="inline-block text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded mb-2"
-        style={{ background: `color-mix(in srgb, ${color} 15%, transparent)`, color }}
-      >
-        {label}
-      </span>
+      <div className="flex items-center justify-between mb-2">
+        <span
+          className="inline-block text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded"
+          style={{ background: `color-mix(in srgb, ${color} 15%, transparent)`, color }}
+        >
+          {label}
+        </span>
+        {regenerate}
+      </div>
       <div className="space-y-2">
         {titles.map((title, i) => (
-          <TitleCard key={i} title={title} onCopy={onCopy} />
+          <TitleCard
+            key={i}
+            title={title}
+            score={scoreFor(title)}
+            selected={title === workingTitle}
+            onSelect={() => onSelect(title)}
+            onCopy={onCopy}
+          />
         ))}
       </div>
     </div>
   );
 }
 
-function TitleCard({ title, onCopy }: { title: string; onCopy: () => void }) {
+function TitleCard({
+  title,
+  score,
+  tag,
+  selected,
+  onSelect,
+  onCopy,
+}: {
+  title: string;
+  score?: TitleScore;
+  tag?: { label: string; color: string };
+  selected: boolean;
+  onSelect: () => void;
+  onCopy: () => void;
+}) {
+  const [showScore, setShowScore] = useState(false);
+
   const handleClick = async () => {
     try {
       await navigator.clipboard.writeText(title);
@@ -716,22 +1432,262 @@ function TitleCard({ title, onCopy }: { title: string; onCopy: () => void }) {
     }
   };
 
+  const scoreColor = !score
+    ? "var(--text-muted)"
+    : score.total >= 70
+      ? "var(--green)"
+      : score.total >= 45
+        ? "var(--orange)"
+        : "var(--red)";
+
   return (
     <div
-      onClick={handleClick}
-      className="flex items-center justify-between gap-3 px-4 py-3 rounded-xl cursor-pointer transition-colors group"
+      className="rounded-xl transition-colors"
       style={{
         background: "var(--bg-input)",
+        border: `1px solid ${selected ? "var(--accent)" : "var(--border)"}`,
+      }}
+    >
+      <div
+        onClick={handleClick}
+        className="flex items-center justify-between gap-3 px-4 py-3 cursor-pointer group"
+        title="Click to copy"
+      >
+        <span className="flex flex-col gap-1">
+          {tag && (
+            <span
+              className="text-[10px] font-semibold uppercase tracking-wider"
+              style={{ color: tag.color }}
+            >
+              {tag.label}
+            </span>
+          )}
+          <span className="text-sm font-medium" style={{ color: "var(--text-primary)" }}>
+            {title}
+          </span>
+        </span>
+        <span className="flex items-center gap-3 shrink-0">
+          <span className="text-xs opacity-0 group-hover:opacity-100 transition-opacity" style={{ color: "var(--text-muted)" }}>
+            Click to copy
+          </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect();
+            }}
+            disabled={selected}
+            className="px-2 py-0.5 rounded-md text-xs font-medium"
+            style={{
+              color: selected ? "var(--accent)" : "var(--text-secondary)",
+              background: selected ? "var(--accent-muted)" : "var(--bg-tertiary)",
+            }}
+            title="Use as the working title"
+          >
+            {selected ? "Working title" : "Use"}
+          </button>
+          {score && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowScore(!showScore);
+              }}
+              className="px-2 py-0.5 rounded-md text-xs font-semibold"
+              style={{ color: scoreColor, background: "var(--bg-tertiary)" }}
+              title="Show score breakdown"
+            >
+              {score.total}
+            </button>
+          )}
+        </span>
+      </div>
+
+      {score && showScore && <ScoreBreakdown score={score} />}
+    </div>
+  );
+}
+
+function WorkingTitle({
+  title,
+  score,
+  onChange,
+}: {
+  title: string;
+  score?: TitleScore;
+  onChange: (title: string) => void;
+}) {
+  return (
+    <div
+      className="rounded-xl p-4"
+      style={{ background: "var(--bg-input)", border: "1px solid var(--accent)" }}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <label
+          htmlFor="working-title"
+          className="text-[10px] font-semibold uppercase tracking-wider"
+          style={{ color: "var(--accent)" }}
+        >
+          Working title
+        </label>
+        <span className="flex items-center gap-3 text-xs" style={{ color: "var(--text-muted)" }}>
+          {title.length} chars{score && ` · score ${score.total}`}
+          <CopyButton text={title} />
+        </span>
+      </div>
+      <input
+        id="working-title"
+        value={title}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 rounded-lg text-sm font-medium outline-none"
+        style={{
+          background: "var(--bg-card)",
+          border: "1px solid var(--border)",
+          color: "var(--text-primary)",
+        }}
+      />
+      <p className="text-xs mt-1.5" style={{ color: "var(--text-muted)" }}>
+        Used for thumbnails, the upload pack and the overlay check. Pick one below or edit it here.
+      </p>
+    </div>
+  );
+}
+
+function ScoreBreakdown({ score }: { score: TitleScore }) {
+  return (
+    <div className="px-4 pb-3 space-y-2 text-xs animate-fade-in">
+      <ul className="space-y-1">
+        {score.factors.map((factor) => (
+          <li key={factor.key} className="flex items-baseline gap-2">
+            <span className="w-28 shrink-0" style={{ color: "var(--text-label)" }}>
+              {factor.label}
+            </span>
+            <span className="w-12 shrink-0 font-mono" style={{ color: "var(--text-primary)" }}>
+              {factor.points}/{factor.max}
+            </span>
+            <span style={{ color: "var(--text-muted)" }}>{factor.note}</span>
+          </li>
+        ))}
+      </ul>
+      {(score.truncated.mobile || score.truncated.desktop) && (
+        <div className="space-y-0.5" style={{ color: "var(--text-muted)" }}>
+          {score.truncated.mobile && <p>Mobile: {score.truncated.mobile}</p>}
+          {score.truncated.desktop && <p>Desktop: {score.truncated.desktop}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RegenerateButton({
+  label = "Regenerate",
+  busy,
+  disabled,
+  onClick,
+}: {
+  label?: string;
+  busy: boolean;
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+      style={{
+        background: "var(--bg-tertiary)",
+        color: "var(--text-secondary)",
         border: "1px solid var(--border)",
       }}
-      title="Click to copy"
     >
-      <span className="text-sm font-medium" style={{ color: "var(--text-primary)" }}>
-        {title}
-      </span>
-      <span className="text-xs opacity-0 group-hover:opacity-100 transition-opacity" style={{ color: "var(--text-muted)" }}>
-        Click to copy
+      <svg
+        className={`h-3.5 w-3.5 ${busy ? "animate-spin" : ""}`}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+      >
+        <path d="M21 12a9 9 0 11-3-6.7L21 8M21 3v5h-5" strokeLinecap="round" strokeLinejoin="round" />
+      </svg>
+      {busy ? "Regenerating..." : label}
+    </button>
+  );
+}
+
+function CachedNotice({
+  cachedAt,
+  disabled,
+  onRunFresh,
+}: {
+  cachedAt: string;
+  disabled: boolean;
+  onRunFresh: () => void;
+}) {
+  return (
+    <div
+      className="rounded-xl px-4 py-2.5 mb-4 flex items-center justify-between gap-3 text-xs"
+      style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+    >
+      <span style={{ color: "var(--text-secondary)" }}>
+        Same transcript and settings as a run from{" "}
+        {new Date(cachedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}, so
+        those results were reused at no cost.
       </span>
+      <button
+        onClick={onRunFresh}
+        disabled={disabled}
+        className="px-2.5 py-1 rounded-md font-medium whitespace-nowrap transition-colors disabled:opacity-40"
+        style={{
+          background: "var(--bg-tertiary)",
+          color: "var(--text-secondary)",
+          border: "1px solid var(--border)",
+        }}
+      >
+        Run fresh
+      </button>
+    </div>
+  );
+}
+
+function ChapterWarnings({ issues }: { issues: ChapterIssue[] }) {
+  if (issues.length === 0) return null;
+
+  const blocking = issues.filter((issue) => !issue.fixed);
+
+  return (
+    <div
+      className="rounded-xl px-4 py-3 mb-4 space-y-1.5 text-xs"
+      style={{
+        background: "var(--bg-input)",
+        border: `1px solid ${blocking.length > 0 ? "var(--orange)" : "var(--border)"}`,
+      }}
+    >
+      <h4
+        className="font-semibold"
+        style={{ color: blocking.length > 0 ? "var(--orange)" : "var(--text-label)" }}
+      >
+        {blocking.length > 0
+          ? "YouTube will not show these chapters yet"
+          : "Timeline fixed to meet YouTube's chapter rules"}
+      </h4>
+      <ul className="space-y-1">
+        {issues.map((issue, i) => (
+          <li key={i} className="flex items-baseline gap-2">
+            <span style={{ color: issue.fixed ? "var(--green)" : "var(--orange)" }}>
+              {issue.fixed ? "Fixed" : "Needs attention"}
+            </span>
+            <span style={{ color: "var(--text-secondary)" }}>{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SectionPending({ label }: { label: string }) {
+  return (
+    <div className="flex items-center justify-center gap-2 py-10 text-sm" style={{ color: "var(--text-muted)" }}>
+      <span className="animate-pulse-dot">&#9679;</span>
+      Writing {label.toLowerCase()}...
     </div>
   );
 }
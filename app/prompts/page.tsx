@@ -0,0 +1,337 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import ThemeToggle from "@/components/ThemeToggle";
+import type { PromptName, PromptSummary, PromptVersion } from "@/lib/prompt-registry";
+import { diffLines, templateVariables } from "@/lib/prompt-template";
+
+function liveVersion(prompt: PromptSummary): PromptVersion {
+  return prompt.versions[prompt.versions.length - 1];
+}
+
+function formatSaved(version: PromptVersion): string {
+  return version.created_at
+    ? new Date(version.created_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+    : "Shipped with the app";
+}
+
+async function fetchPrompts(): Promise<{ prompts?: PromptSummary[]; error?: string }> {
+  try {
+    const data = await (await fetch("/api/prompts")).json();
+    return data.success ? { prompts: data.prompts } : { error: data.error || "Could not load prompts" };
+  } catch {
+    return { error: "Failed to connect to the server" };
+  }
+}
+
+export default function PromptsPage() {
+  const [prompts, setPrompts] = useState<PromptSummary[] | null>(null);
+  const [selected, setSelected] = useState<PromptName>("analysis_system");
+  // Null until the template is edited; the live version stands in until then
+  const [draft, setDraft] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    const { prompts, error } = await fetchPrompts();
+    if (prompts) setPrompts(prompts);
+    else setError(error ?? null);
+  };
+
+  useEffect(() => {
+    fetchPrompts().then(({ prompts, error }) => {
+      if (prompts) setPrompts(prompts);
+      else setError(error ?? null);
+    });
+  }, []);
+
+  const prompt = prompts?.find((p) => p.name === selected) ?? null;
+  const live = prompt ? liveVersion(prompt) : null;
+  const template = draft ?? live?.template ?? "";
+  const compared = prompt?.versions.find((v) => v.version === compareTo) ?? live;
+
+  const diff = useMemo(
+    () => (compared ? diffLines(compared.template, template) : []),
+    [compared, template]
+  );
+  const changed = diff.some((line) => line.type !== "same");
+  const unknownVariables = prompt
+    ? templateVariables(template).filter((v) => !(v in prompt.variables))
+    : [];
+
+  const selectPrompt = (name: PromptName) => {
+    setSelected(name);
+    setDraft(null);
+    setNote("");
+    setCompareTo(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const save = async (body: Record<string, unknown>, done: string) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/prompts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: selected, ...body }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || "Could not save the prompt");
+        return;
+      }
+
+      setDraft(null);
+      setNote("");
+      setCompareTo(null);
+      setMessage(`${done} v${data.version.version} is live.`);
+      await load();
+    } catch {
+      setError("Failed to connect to the server");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen" style={{ background: "var(--bg-primary)" }}>
+      <header
+        className="sticky top-0 z-50 px-4 h-[49px] flex items-center justify-between"
+        style={{
+          background: "var(--bg-header)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <div className="flex items-center gap-3">
+          <Link href="/" className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            &larr; Back
+          </Link>
+          <h1 className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+            Prompts
+          </h1>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="max-w-[1100px] mx-auto px-4 py-8 space-y-4">
+        {!prompts && !error && (
+          <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+            Loading prompts...
+          </p>
+        )}
+
+        {prompts && (
+          <div
+            className="flex gap-1 p-1 rounded-xl overflow-x-auto"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+          >
+            {prompts.map((p) => (
+              <button
+                key={p.name}
+                onClick={() => selectPrompt(p.name)}
+                className="flex-1 min-w-[120px] py-2 px-3 rounded-lg text-xs font-medium transition-all whitespace-nowrap"
+                style={{
+                  background: selected === p.name ? "var(--accent)" : "transparent",
+                  color: selected === p.name ? "white" : "var(--text-secondary)",
+                }}
+              >
+                {p.label} &middot; v{liveVersion(p).version}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--red)", color: "var(--red)" }}
+          >
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--green)", color: "var(--green)" }}
+          >
+            {message}
+          </div>
+        )}
+
+        {prompt && live && (
+          <div className="grid gap-4 lg:grid-cols-[1fr_300px]">
+            <div className="space-y-4">
+              <section
+                className="rounded-2xl p-6 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                <p className="text-xs mb-3" style={{ color: "var(--text-muted)" }}>
+                  {prompt.description}
+                </p>
+                <textarea
+                  value={template}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={24}
+                  spellCheck={false}
+                  className="w-full px-4 py-3 rounded-lg text-xs font-mono outline-none resize-y"
+                  disabled={isSaving}
+                />
+                {unknownVariables.length > 0 && (
+                  <p className="text-xs mt-2" style={{ color: "var(--orange)" }}>
+                    Not a variable of this prompt: {unknownVariables.map((v) => `{{${v}}}`).join(", ")}
+                  </p>
+                )}
+                <div className="flex items-center gap-2 mt-3">
+                  <input
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="What changed (optional)"
+                    maxLength={200}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-xs outline-none"
+                    disabled={isSaving}
+                  />
+                  <button
+                    onClick={() => setDraft(null)}
+                    disabled={isSaving || draft === null}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                    style={{
+                      background: "var(--bg-tertiary)",
+                      color: "var(--text-secondary)",
+                      border: "1px solid var(--border)",
+                    }}
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={() => save({ template, note }, "Saved.")}
+                    disabled={isSaving || draft === null || draft === live.template}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+                    style={{ background: "var(--accent)", color: "white" }}
+                  >
+                    {isSaving ? "Saving..." : `Save as v${live.version + 1}`}
+                  </button>
+                </div>
+              </section>
+
+              {compared && (
+                <section
+                  className="rounded-2xl p-6 animate-fade-in"
+                  style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+                >
+                  <h2 className="text-xs font-medium mb-3" style={{ color: "var(--text-label)" }}>
+                    Changes from v{compared.version} to {draft === null ? `v${live.version} (live)` : "your edit"}
+                  </h2>
+                  {!changed ? (
+                    <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                      No differences.
+                    </p>
+                  ) : (
+                    <pre
+                      className="text-[11px] leading-relaxed rounded-lg overflow-x-auto max-h-[480px] overflow-y-auto"
+                      style={{ background: "var(--bg-input)", border: "1px solid var(--border)" }}
+                    >
+                      {diff.map((line, i) => (
+                        <div
+                          key={i}
+                          className="px-3 whitespace-pre-wrap"
+                          style={{
+                            background:
+                              line.type === "added"
+                                ? "var(--green-muted)"
+                                : line.type === "removed"
+                                  ? "var(--red-muted)"
+                                  : "transparent",
+                            color: line.type === "same" ? "var(--text-muted)" : "var(--text-primary)",
+                          }}
+                        >
+                          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                </section>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <section
+                className="rounded-2xl p-6 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                <h2 className="text-xs font-medium mb-3" style={{ color: "var(--text-label)" }}>
+                  Variables
+                </h2>
+                <dl className="space-y-2 text-xs">
+                  {Object.entries(prompt.variables).map(([name, description]) => (
+                    <div key={name}>
+                      <dt className="font-mono" style={{ color: "var(--text-primary)" }}>{`{{${name}}}`}</dt>
+                      <dd style={{ color: "var(--text-muted)" }}>{description}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+
+              <section
+                className="rounded-2xl p-6 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                <h2 className="text-xs font-medium mb-3" style={{ color: "var(--text-label)" }}>
+                  History
+                </h2>
+                <div className="space-y-3">
+                  {[...prompt.versions].reverse().map((version) => (
+                    <div key={version.version} className="text-xs">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium" style={{ color: "var(--text-primary)" }}>
+                          v{version.version}
+                          {version.version === live.version && (
+                            <span className="ml-1.5" style={{ color: "var(--green)" }}>
+                              live
+                            </span>
+                          )}
+                        </span>
+                        <span className="flex gap-2">
+                          <button
+                            onClick={() => setCompareTo(version.version)}
+                            style={{ color: compared?.version === version.version ? "var(--accent)" : "var(--text-secondary)" }}
+                          >
+                            Diff
+                          </button>
+                          {version.version !== live.version && (
+                            <button
+                              onClick={() => save({ rollback_to: version.version }, "Rolled back.")}
+                              disabled={isSaving}
+                              className="disabled:opacity-40"
+                              style={{ color: "var(--text-secondary)" }}
+                            >
+                              Roll back
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                      <div style={{ color: "var(--text-muted)" }}>
+                        {formatSaved(version)}
+                        {version.note && <> &middot; {version.note}</>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
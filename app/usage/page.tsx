@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import ThemeToggle from "@/components/ThemeToggle";
+import type { UsageReport } from "@/lib/usage-store";
+
+function formatUsd(value: number): string {
+  return value < 1 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+}
+
+
+export default function UsagePage() {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/usage")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setReport(data.report);
+        else setError(data.error || "Could not load usage");
+      })
+      .catch(() => setError("Failed to connect to the server"));
+  }, []);
+
+  const peakDay = Math.max(0, ...(report?.days ?? []).map((d) => d.cost_usd));
+  const names = new Map((report?.channels ?? []).map((spend) => [spend.channel, spend.name]));
+  const channelName = (id: string) => names.get(id) || id || "No channel";
+
+  return (
+    <div className="min-h-screen" style={{ background: "var(--bg-primary)" }}>
+      <header
+        className="sticky top-0 z-50 px-4 h-[49px] flex items-center justify-between"
+        style={{
+          background: "var(--bg-header)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <div className="flex items-center gap-3">
+          <Link href="/" className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            &larr; Back
+          </Link>
+          <h1 className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+            AI usage
+          </h1>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="max-w-[900px] mx-auto px-4 py-8 space-y-4">
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--red)", color: "var(--red)" }}
+          >
+            {error}
+          </div>
+        )}
+
+        {!report && !error && (
+          <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+            Loading usage...
+          </p>
+        )}
+
+        {report && (
+          <>
+            <section
+              className="rounded-2xl p-6 animate-fade-in"
+              style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+            >
+              <h2 className="text-xs font-medium mb-2" style={{ color: "var(--text-label)" }}>
+                Estimated spend, {report.month}
+              </h2>
+              <div className="text-2xl font-semibold" style={{ color: "var(--text-primary)" }}>
+                {formatUsd(report.cost_usd)}
+                {report.budget_usd !== null && (
+                  <span className="text-sm font-normal ml-2" style={{ color: "var(--text-muted)" }}>
+                    of {formatUsd(report.budget_usd)} budget
+                  </span>
+                )}
+              </div>
+              {report.budget_usd !== null && (
+                <BudgetBar spent={report.cost_usd} budget={report.budget_usd} />
+              )}
+              <p className="text-xs mt-3" style={{ color: "var(--text-muted)" }}>
+                Estimated from list prices. Local and unknown models count as free.
+              </p>
+            </section>
+
+            <section
+              className="rounded-2xl p-6 animate-fade-in"
+              style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+            >
+              <h2 className="text-xs font-medium mb-3" style={{ color: "var(--text-label)" }}>
+                By channel
+              </h2>
+              {report.channels.length === 0 ? (
+                <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                  No model calls this month.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {report.channels.map((spend) => (
+                    <div key={spend.channel}>
+                      <div className="flex items-center justify-between text-sm">
+                        <span style={{ color: "var(--text-primary)" }}>{channelName(spend.channel)}</span>
+                        <span className="font-mono" style={{ color: "var(--text-primary)" }}>
+                          {formatUsd(spend.cost_usd)}
+                          {spend.budget_usd !== null && (
+                            <span style={{ color: "var(--text-muted)" }}> / {formatUsd(spend.budget_usd)}</span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="text-xs" style={{ color: "var(--text-muted)" }}>
+                        {formatTokens(spend.prompt_tokens)} prompt &middot;{" "}
+                        {formatTokens(spend.completion_tokens)} completion tokens
+                      </div>
+                      {spend.budget_usd !== null && (
+                        <BudgetBar spent={spend.cost_usd} budget={spend.budget_usd} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {report.days.length > 0 && (
+              <section
+                className="rounded-2xl p-6 animate-fade-in"
+                style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+              >
+                <h2 className="text-xs font-medium mb-3" style={{ color: "var(--text-label)" }}>
+                  By day
+                </h2>
+                <div className="space-y-1.5">
+                  {report.days.map((day) => (
+                    <div key={day.day} className="flex items-center gap-3 text-xs">
+                      <span className="font-mono min-w-[84px]" style={{ color: "var(--text-secondary)" }}>
+                        {day.day}
+                      </span>
+                      <div className="flex-1 h-2 rounded" style={{ background: "var(--bg-input)" }}>
+                        <div
+                          className="h-2 rounded"
+                          style={{
+                            width: `${peakDay > 0 ? (day.cost_usd / peakDay) * 100 : 0}%`,
+                            background: "var(--accent)",
+                          }}
+                          title={Object.entries(day.channels)
+                            .map(([id, cost]) => `${channelName(id)}: ${formatUsd(cost)}`)
+                            .join("\n")}
+                        />
+                      </div>
+                      <span className="font-mono min-w-[64px] text-right" style={{ color: "var(--text-primary)" }}>
+                        {formatUsd(day.cost_usd)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function BudgetBar({ spent, budget }: { spent: number; budget: number }) {
+  const ratio = Math.min(1, spent / budget);
+  const color = ratio >= 1 ? "var(--red)" : ratio >= 0.8 ? "var(--orange)" : "var(--green)";
+
+  return (
+    <div className="h-1.5 rounded mt-2" style={{ background: "var(--bg-input)" }}>
+      <div className="h-1.5 rounded" style={{ width: `${ratio * 100}%`, background: color }} />
+    </div>
+  );
+}
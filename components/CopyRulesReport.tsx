@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import type { CopyLintReport, RuleViolation } from "@/lib/copy-rules";
+
+interface CopyRulesReportProps {
+  report: CopyLintReport;
+}
+
+export default function CopyRulesReport({ report }: CopyRulesReportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (report.fixed.length === 0 && report.remaining.length === 0) return null;
+
+  const scoreColor =
+    report.score >= 90 ? "var(--green)" : report.score >= 70 ? "var(--orange)" : "var(--red)";
+
+  return (
+    <div
+      className="rounded-xl mb-4"
+      style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-2.5 flex items-center justify-between text-xs"
+      >
+        <span className="flex items-center gap-3">
+          <span className="font-medium" style={{ color: "var(--text-label)" }}>
+            Copy rules
+          </span>
+          <span className="font-semibold" style={{ color: scoreColor }}>
+            {report.score}/100
+          </span>
+          {report.fixed.length > 0 && (
+            <span style={{ color: "var(--green)" }}>{report.fixed.length} fixed</span>
+          )}
+          {report.remaining.length > 0 && (
+            <span style={{ color: "var(--orange)" }}>{report.remaining.length} remaining</span>
+          )}
+        </span>
+        <span style={{ color: "var(--text-muted)" }}>{isOpen ? "Hide" : "Details"}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-3 space-y-3 animate-fade-in">
+          {report.remaining.length > 0 && (
+            <ViolationList label="Still breaking a rule" violations={report.remaining} color="var(--orange)" />
+          )}
+          {report.fixed.length > 0 && (
+            <ViolationList label="Fixed automatically" violations={report.fixed} color="var(--green)" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ViolationList({
+  label,
+  violations,
+  color,
+}: {
+  label: string;
+  violations: RuleViolation[];
+  color: string;
+}) {
+  return (
+    <div>
+      <h4 className="text-[10px] font-semibold uppercase tracking-wider mb-1.5" style={{ color }}>
+        {label}
+      </h4>
+      <ul className="space-y-1">
+        {violations.map((v, i) => (
+          <li key={i} className="flex items-baseline gap-2 text-xs">
+            <span className="font-mono" style={{ color: "var(--text-muted)" }}>
+              {v.path}
+            </span>
+            <span style={{ color: "var(--text-secondary)" }}>{v.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
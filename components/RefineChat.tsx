@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import type { RefineTurn } from "@/lib/refine";
+
+interface RefineChatProps {
+  turns: RefineTurn[];
+  sending: boolean;
+  disabled: boolean;
+  /** Label of the change Undo would revert, or null when there is nothing to undo. */
+  undoLabel: string | null;
+  onSend: (instruction: string) => Promise<boolean>;
+  onUndo: () => void;
+}
+
+const SUGGESTIONS = [
+  "Make the warning titles less clickbaity",
+  "Shorten the description hook",
+  "Add more long-tail tags",
+];
+
+export default function RefineChat({
+  turns,
+  sending,
+  disabled,
+  undoLabel,
+  onSend,
+  onUndo,
+}: RefineChatProps) {
+  const [instruction, setInstruction] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = instruction.trim();
+    if (!text || sending || disabled) return;
+
+    // Keep the draft when the request fails so it can be retried
+    if (await onSend(text)) setInstruction("");
+  };
+
+  return (
+    <div
+      className="rounded-2xl p-6 mt-4"
+      style={{ background: "var(--bg-card)", border: "1px solid var(--border)" }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+          Refine
+        </h3>
+        <button
+          onClick={onUndo}
+          disabled={!undoLabel || sending}
+          title={undoLabel ? `Undo: ${undoLabel}` : undefined}
+          className="px-2 py-1 rounded-md text-xs font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          style={{
+            background: "var(--bg-tertiary)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          Undo
+        </button>
+      </div>
+
+      {turns.length > 0 ? (
+        <div className="space-y-3 mb-4">
+          {turns.map((turn, i) => (
+            <div key={i} className="space-y-1.5 text-sm">
+              <p
+                className="ml-auto w-fit max-w-[85%] px-3 py-2 rounded-xl"
+                style={{ background: "var(--accent)", color: "white" }}
+              >
+                {turn.instruction}
+              </p>
+              <p
+                className="w-fit max-w-[85%] px-3 py-2 rounded-xl"
+                style={{ background: "var(--bg-input)", color: "var(--text-secondary)" }}
+              >
+                {turn.summary}
+              </p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              onClick={() => setInstruction(suggestion)}
+              disabled={disabled}
+              className="px-2.5 py-1 rounded-lg text-xs transition-colors disabled:opacity-40"
+              style={{
+                background: "var(--bg-tertiary)",
+                color: "var(--text-secondary)",
+                border: "1px solid var(--border)",
+              }}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder="Tell it what to change..."
+          maxLength={1000}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 rounded-xl text-sm outline-none"
+          style={{
+            background: "var(--bg-input)",
+            border: "1px solid var(--border)",
+            color: "var(--text-primary)",
+          }}
+        />
+        <button
+          type="submit"
+          disabled={!instruction.trim() || sending || disabled}
+          className="px-4 py-2 rounded-xl text-sm font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          style={{ background: "var(--accent)", color: "white" }}
+        >
+          {sending ? "Working..." : "Send"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,33 +1,56 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { CHANNELS, type ChannelId } from "@/lib/channels";
+import type { ChannelConfig } from "@/lib/channels";
+import { MAX_REFERENCES } from "@/lib/channel-schema";
 
 interface StyleReferencesProps {
-  channel: ChannelId;
+  channel: ChannelConfig;
   styleGuide: string;
   onStyleGuideChange: (guide: string) => void;
+  /** Called with the saved channel after its reference library changes. */
+  onChannelChange: (channel: ChannelConfig) => void;
 }
 
-const MAX_IMAGES = 5;
 const MAX_FILE_SIZE = 4 * 1024 * 1024; // 4MB
 
 export default function StyleReferences({
   channel,
   styleGuide,
   onStyleGuideChange,
+  onChannelChange,
 }: StyleReferencesProps) {
-  const [images, setImages] = useState<string[]>([]);
+  // The channel's reference library, stored on the CDN
+  const images = channel.sampleThumbnails;
+  const [isUploading, setIsUploading] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const updateLibrary = async (url: string, init: RequestInit) => {
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || "Could not update the references");
+        return;
+      }
+      onChannelChange(data.channel);
+    } catch {
+      setError("Failed to connect to server");
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     setError(null);
 
-    const remaining = MAX_IMAGES - images.length;
+    // Reset input
+    if (fileInputRef.current) fileInputRef.current.value = "";
+
+    const remaining = MAX_REFERENCES - images.length;
     if (files.length > remaining) {
       setError(`Can only add ${remaining} more image${remaining === 1 ? "" : "s"}`);
       return;
@@ -44,29 +67,25 @@ export default function StyleReferences({
       }
     }
 
-    // Convert to base64 data URLs
-    files.forEach((file) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        setImages((prev) => {
-          if (prev.length >= MAX_IMAGES) return prev;
-          return [...prev, reader.result as string];
-        });
-      };
-      reader.readAsDataURL(file);
+    const formData = new FormData();
+    files.forEach((file) => formData.append("file", file));
+    setIsUploading(true);
+    await updateLibrary(`/api/channels/${encodeURIComponent(channel.id)}/references`, {
+      method: "POST",
+      body: formData,
     });
-
-    // Reset input
-    if (fileInputRef.current) fileInputRef.current.value = "";
+    setIsUploading(false);
   };
 
-  const removeImage = (index: number) => {
-    setImages((prev) => prev.filter((_, i) => i !== index));
-  };
+  const removeImage = (url: string) =>
+    updateLibrary(
+      `/api/channels/${encodeURIComponent(channel.id)}/references?url=${encodeURIComponent(url)}`,
+      { method: "DELETE" }
+    );
 
   const handleAnalyze = async () => {
     if (images.length === 0) {
-      setError("Upload at least one sample thumbnail");
+      setError("Upload at least one reference thumbnail");
       return;
     }
 
@@ -77,7 +96,8 @@ export default function StyleReferences({
       const response = await fetch("/api/analyze-style", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ images }),
+        // No images: the route reads the channel's library
+        body: JSON.stringify({ channel: channel.id }),
       });
 
       const data = await response.json();
@@ -95,8 +115,8 @@ export default function StyleReferences({
     }
   };
 
-  const accentColor = CHANNELS[channel].accentColor;
-  const accentBg = CHANNELS[channel].accentBg;
+  const accentColor = channel.accentColor;
+  const accentBg = channel.accentBg;
 
   return (
     <div className="space-y-4">
@@ -104,17 +124,8 @@ export default function StyleReferences({
       <div>
         <div className="flex items-center justify-between mb-2">
           <label className="text-xs font-medium" style={{ color: "var(--text-label)" }}>
-            Sample Thumbnails ({images.length}/{MAX_IMAGES})
+            Reference Thumbnails ({images.length}/{MAX_REFERENCES})
           </label>
-          {images.length > 0 && (
-            <button
-              onClick={() => setImages([])}
-              className="text-xs transition-colors"
-              style={{ color: "var(--text-muted)" }}
-            >
-              Clear all
-            </button>
-          )}
         </div>
 
         {/* Image Previews */}
@@ -122,7 +133,7 @@ export default function StyleReferences({
           <div className="flex flex-wrap gap-2 mb-3">
             {images.map((img, i) => (
               <div
-                key={i}
+                key={img}
                 className="relative group rounded-lg overflow-hidden"
                 style={{
                   width: "120px",
@@ -136,7 +147,8 @@ export default function StyleReferences({
                   className="w-full h-full object-cover"
                 />
                 <button
-                  onClick={() => removeImage(i)}
+                  onClick={() => removeImage(img)}
+                  title="Remove from this channel's references"
                   className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity"
                   style={{ background: "rgba(0,0,0,0.7)", color: "white" }}
                 >
@@ -148,26 +160,27 @@ export default function StyleReferences({
         )}
 
         {/* Upload Button */}
-        {images.length < MAX_IMAGES && (
+        {images.length < MAX_REFERENCES && (
           <div>
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept="image/png,image/jpeg,image/webp"
               multiple
               onChange={handleFileSelect}
               className="hidden"
             />
             <button
               onClick={() => fileInputRef.current?.click()}
-              className="w-full py-3 rounded-lg text-sm transition-colors border-dashed"
+              disabled={isUploading}
+              className="w-full py-3 rounded-lg text-sm transition-colors border-dashed disabled:opacity-50"
               style={{
                 background: accentBg,
                 color: accentColor,
                 border: `1.5px dashed ${accentColor}40`,
               }}
             >
-              + Upload sample thumbnails
+              {isUploading ? "Uploading..." : "+ Upload reference thumbnails"}
             </button>
           </div>
         )}
@@ -205,7 +218,7 @@ export default function StyleReferences({
               Analyzing style...
             </span>
           ) : (
-            "Analyze Style"
+            styleGuide && styleGuide !== channel.thumbnailStyle ? "Re-analyze Style" : "Analyze Style"
           )}
         </button>
       )}
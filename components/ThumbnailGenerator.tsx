@@ -1,24 +1,21 @@
 "use client";
 
 import { useState } from "react";
-import { CHANNELS, type ChannelId } from "@/lib/channels";
-
-interface ThumbnailConcept {
-  concept: string;
-  text_overlay: string;
-  emotion: string;
-  recommended: boolean;
-}
+import type { ChannelConfig } from "@/lib/channels";
+import type { ThumbnailConcept } from "@/lib/analysis";
+import { overlayRepeatsTitle } from "@/lib/copy-rules";
+import type { PromptVersions } from "@/lib/prompt-registry";
 
 interface GeneratedThumbnail {
   url: string;
   prompt_used: string;
   text_overlay: string;
+  prompt_versions: PromptVersions;
 }
 
 interface ThumbnailGeneratorProps {
   concept: ThumbnailConcept;
-  channel: ChannelId;
+  channel: ChannelConfig;
   styleGuide: string;
   headshotUrl: string | null;
   videoTitle?: string;
@@ -37,8 +34,9 @@ export default function ThumbnailGenerator({
   const [error, setError] = useState<string | null>(null);
   const [showPrompt, setShowPrompt] = useState(false);
 
-  const accentColor = CHANNELS[channel].accentColor;
-  const accentBg = CHANNELS[channel].accentBg;
+  const accentColor = channel.accentColor;
+  const accentBg = channel.accentBg;
+  const repeatsTitle = !!videoTitle && overlayRepeatsTitle(concept.text_overlay, videoTitle);
 
   const handleGenerate = async () => {
     setIsGenerating(true);
@@ -52,7 +50,7 @@ export default function ThumbnailGenerator({
           concept: concept.concept,
           text_overlay: concept.text_overlay,
           emotion: concept.emotion,
-          channel,
+          channel: channel.id,
           style_guide: styleGuide || undefined,
           headshot_url: useHeadshot && headshotUrl ? headshotUrl : undefined,
           video_title: videoTitle,
@@ -70,6 +68,7 @@ export default function ThumbnailGenerator({
         url: data.url,
         prompt_used: data.prompt_used,
         text_overlay: data.text_overlay,
+        prompt_versions: data.prompt_versions ?? {},
       });
     } catch {
       setError("Failed to connect to server");
@@ -87,7 +86,7 @@ export default function ThumbnailGenerator({
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `thumbnail-${channel}-${Date.now()}.png`;
+      a.download = `thumbnail-${channel.id}-${Date.now()}.png`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -133,6 +132,11 @@ export default function ThumbnailGenerator({
       <div className="text-xs mb-3" style={{ color: "var(--text-muted)" }}>
         Emotion: {concept.emotion}
       </div>
+      {repeatsTitle && (
+        <div className="text-xs mb-3" style={{ color: "var(--orange)" }}>
+          The overlay repeats the working title. Thumbnail text works best when it adds something the title does not say.
+        </div>
+      )}
 
       {/* Headshot Toggle */}
       {headshotUrl && (
@@ -207,14 +211,22 @@ export default function ThumbnailGenerator({
             </button>
           </div>
 
-          {/* Show Prompt Toggle */}
-          <button
-            onClick={() => setShowPrompt(!showPrompt)}
-            className="text-[10px] transition-colors"
-            style={{ color: "var(--text-muted)" }}
-          >
-            {showPrompt ? "Hide prompt" : "Show DALL-E prompt"}
-          </button>
+          {/* Show Prompt Toggle, with the prompt versions that built it */}
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setShowPrompt(!showPrompt)}
+              className="text-[10px] transition-colors"
+              style={{ color: "var(--text-muted)" }}
+            >
+              {showPrompt ? "Hide prompt" : "Show DALL-E prompt"}
+            </button>
+            {thumbnail.prompt_versions.thumbnail_flux !== undefined && (
+              <span className="text-[10px]" style={{ color: "var(--text-muted)" }}>
+                FLUX prompt v{thumbnail.prompt_versions.thumbnail_flux} &middot; crafter v
+                {thumbnail.prompt_versions.thumbnail_crafter}
+              </span>
+            )}
+          </div>
           {showPrompt && (
             <pre
               className="text-[10px] leading-relaxed p-2 rounded-lg overflow-x-auto max-h-32 overflow-y-auto"
@@ -0,0 +1,177 @@
+/**
+ * Finished analyses, keyed on everything that shapes them, so re-running the
+ * same transcript after a refresh costs nothing.
+ *
+ *   ANALYSIS_CACHE       memory (default) | fs | supabase | off
+ *   ANALYSIS_CACHE_DIR   where `fs` writes (default: .cache/analysis)
+ *
+ * `memory` is per instance and gone on restart. `fs` suits local dev and Tim;
+ * on Vercel only /tmp is writable, so point ANALYSIS_CACHE_DIR there or use
+ * `supabase`, which needs:
+ *
+ *   create table analysis_cache (
+ *     key text primary key,
+ *     value jsonb not null,
+ *     created_at timestamptz not null default now()
+ *   );
+ *
+ * The store is picked once at startup; `supabase` without Supabase configured
+ * warns then and caches in memory. A cache that fails is treated as a miss,
+ * never as a failed analysis.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { AnalysisData } from "./analysis";
+import type { ChapterIssue } from "./chapters";
+import type { CopyLintReport } from "./copy-rules";
+import { PROMPT_VERSION } from "./prompts";
+import type { PromptVersions } from "./prompt-registry";
+import { supabaseFetch, supabaseTable } from "./supabase-rest";
+
+export interface CachedAnalysis {
+  readonly channel: string;
+  readonly data: AnalysisData;
+  readonly lint: CopyLintReport;
+  readonly chapters: ChapterIssue[];
+  readonly prompt_versions: PromptVersions;
+  /** Transcript keyphrases the prompt was grounded in, best first. */
+  readonly keyphrases: string[];
+  /** ISO time the analysis was generated. */
+  readonly cached_at: string;
+}
+
+export interface AnalysisCacheStore {
+  get(key: string): Promise<CachedAnalysis | null>;
+  set(key: string, value: CachedAnalysis): Promise<void>;
+}
+
+export interface AnalysisCacheInput {
+  readonly transcript: string;
+  readonly channel: string;
+  readonly systemPrompt: string;
+  readonly visualContext?: string;
+  readonly duration?: string;
+}
+
+const MEMORY_CACHE_ENTRIES = 100;
+const CACHE_TABLE = "analysis_cache";
+
+export function analysisCacheKey(input: AnalysisCacheInput): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        PROMPT_VERSION,
+        input.channel,
+        input.systemPrompt,
+        input.transcript,
+        input.visualContext ?? "",
+        input.duration ?? "",
+      ])
+    )
+    .digest("hex");
+}
+
+function createMemoryStore(): AnalysisCacheStore {
+  const entries = new Map<string, CachedAnalysis>();
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      // Maps iterate in insertion order, so the first key is the oldest
+      if (entries.size > MEMORY_CACHE_ENTRIES) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+}
+
+function createFileStore(dir: string): AnalysisCacheStore {
+  const file = (key: string) => path.join(dir, `${key}.json`);
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(file(key), "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async set(key, value) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(file(key), JSON.stringify(value));
+    },
+  };
+}
+
+function createSupabaseStore(): AnalysisCacheStore | null {
+  const table = supabaseTable(CACHE_TABLE);
+  if (!table) return null;
+
+  return {
+    async get(key) {
+      const response = await supabaseFetch(`${table.url}?key=eq.${key}&select=value`, {
+        headers: table.headers,
+      });
+      if (!response.ok) throw new Error(`Analysis cache read failed: ${response.status}`);
+      const rows: { value: CachedAnalysis }[] = await response.json();
+      return rows[0]?.value ?? null;
+    },
+    async set(key, value) {
+      const response = await supabaseFetch(table.url, {
+        method: "POST",
+        headers: { ...table.headers, Prefer: "resolution=merge-duplicates" },
+        body: JSON.stringify({ key, value }),
+      });
+      if (!response.ok) throw new Error(`Analysis cache write failed: ${response.status}`);
+    },
+  };
+}
+
+function selectStore(): AnalysisCacheStore | null {
+  const kind = process.env.ANALYSIS_CACHE?.trim() || "memory";
+  if (kind === "off") return null;
+  if (kind === "memory") return createMemoryStore();
+  if (kind === "fs") {
+    return createFileStore(
+      path.resolve(process.cwd(), process.env.ANALYSIS_CACHE_DIR?.trim() || ".cache/analysis")
+    );
+  }
+
+  const store = kind === "supabase" ? createSupabaseStore() : null;
+  if (store) return store;
+  console.warn(
+    kind === "supabase"
+      ? "ANALYSIS_CACHE=supabase but Supabase is not configured; caching in memory, per instance"
+      : `Unknown ANALYSIS_CACHE "${kind}"; caching in memory, per instance`
+  );
+  return createMemoryStore();
+}
+
+const cacheStore = selectStore();
+
+/** The configured store, or null when caching is off. */
+export function getAnalysisCache(): AnalysisCacheStore | null {
+  return cacheStore;
+}
+
+export async function readCachedAnalysis(key: string): Promise<CachedAnalysis | null> {
+  try {
+    return (await getAnalysisCache()?.get(key)) ?? null;
+  } catch (error) {
+    console.error("Analysis cache read failed:", error);
+    return null;
+  }
+}
+
+export async function writeCachedAnalysis(key: string, value: CachedAnalysis): Promise<void> {
+  try {
+    await getAnalysisCache()?.set(key, value);
+  } catch (error) {
+    console.error("Analysis cache write failed:", error);
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Validation and coercion for the analysis JSON, shared by the analyze route
+ * and the results page.
+ *
+ * The model gets the shape right most of the time and slightly wrong the rest:
+ * tags as one comma-separated string, `short_punchy` as an array, three
+ * concepts with none recommended. Anything with one obvious reading is fixed in
+ * place. Anything else becomes an error message, phrased so it can be sent
+ * back to the model in a repair request.
+ */
+
+import {
+  ANALYSIS_SECTIONS,
+  REQUIRED_SECTIONS,
+  type AnalysisData,
+  type AnalysisSection,
+  type DescriptionParts,
+  type ThumbnailConcept,
+  type TimelineChapter,
+  type TitleOptions,
+} from "./analysis";
+
+export interface ValidationResult<T> {
+  /** The coerced value, or null when it could not be made valid. */
+  readonly value: T | null;
+  readonly errors: string[];
+}
+
+const TITLES_PER_BUCKET = 3;
+const THUMBNAIL_CONCEPTS = 3;
+const MAX_HASHTAGS = 3;
+const TIMESTAMP = /^\d{1,2}(?::\d{2}){1,2}$/;
+
+type Errors = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function coerceString(value: unknown, path: string, errors: Errors): string | null {
+  if (Array.isArray(value) && typeof value[0] === "string") value = value[0];
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${path}: expected a non-empty string`);
+    return null;
+  }
+  return value.trim();
+}
+
+/** Accepts a real array or the comma-separated string the model sometimes returns. */
+function coerceStringList(
+  value: unknown,
+  path: string,
+  errors: Errors,
+  { min = 1, max = Infinity }: { min?: number; max?: number } = {}
+): string[] | null {
+  if (typeof value === "string") value = value.split(",");
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of strings`);
+    return null;
+  }
+
+  const items = value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  if (items.length < min) {
+    errors.push(`${path}: expected at least ${min} item${min === 1 ? "" : "s"}, got ${items.length}`);
+    return null;
+  }
+  return items.slice(0, max);
+}
+
+function coerceTitles(value: unknown, errors: Errors): TitleOptions | null {
+  if (!isObject(value)) {
+    errors.push("titles: expected an object");
+    return null;
+  }
+
+  const bucket = (key: keyof Omit<TitleOptions, "short_punchy">) =>
+    coerceStringList(value[key], `titles.${key}`, errors, {
+      min: TITLES_PER_BUCKET,
+      max: TITLES_PER_BUCKET,
+    });
+
+  const curiosity_gap = bucket("curiosity_gap");
+  const how_to = bucket("how_to");
+  const negative_warning = bucket("negative_warning");
+  const short_punchy = coerceString(value.short_punchy, "titles.short_punchy", errors);
+
+  if (!curiosity_gap || !how_to || !negative_warning || !short_punchy) return null;
+  return { curiosity_gap, how_to, negative_warning, short_punchy };
+}
+
+function coerceDescription(value: unknown, errors: Errors): DescriptionParts | null {
+  if (!isObject(value)) {
+    errors.push("description: expected an object");
+    return null;
+  }
+
+  const hook = coerceString(value.hook, "description.hook", errors);
+  const story_summary = coerceString(value.story_summary, "description.story_summary", errors);
+  const key_takeaways = coerceStringList(value.key_takeaways, "description.key_takeaways", errors);
+  const seo_keywords = coerceStringList(value.seo_keywords, "description.seo_keywords", errors);
+  const cta = coerceString(value.cta, "description.cta", errors);
+  const full_text = coerceString(value.full_text, "description.full_text", errors);
+
+  if (!hook || !story_summary || !key_takeaways || !seo_keywords || !cta || !full_text) {
+    return null;
+  }
+  return { hook, story_summary, key_takeaways, seo_keywords, cta, full_text };
+}
+
+/** Exactly one concept ends up recommended: the first flagged one, else the first. */
+function coerceThumbnailConcepts(value: unknown, errors: Errors): ThumbnailConcept[] | null {
+  if (!Array.isArray(value)) {
+    errors.push("thumbnail_concepts: expected an array");
+    return null;
+  }
+
+  const concepts: ThumbnailConcept[] = [];
+  value.slice(0, THUMBNAIL_CONCEPTS).forEach((item, i) => {
+    const path = `thumbnail_concepts[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+
+    const concept = coerceString(item.concept, `${path}.concept`, errors);
+    const text_overlay = coerceString(item.text_overlay, `${path}.text_overlay`, errors);
+    const emotion = coerceString(item.emotion, `${path}.emotion`, errors);
+    if (!concept || !text_overlay || !emotion) return;
+
+    const recommended = item.recommended === true || item.recommended === "true";
+    concepts.push({ concept, text_overlay, emotion, recommended });
+  });
+
+  if (value.length < THUMBNAIL_CONCEPTS) {
+    errors.push(`thumbnail_concepts: expected ${THUMBNAIL_CONCEPTS} concepts, got ${value.length}`);
+    return null;
+  }
+  if (concepts.length < THUMBNAIL_CONCEPTS) return null;
+
+  const pick = Math.max(0, concepts.findIndex((c) => c.recommended));
+  return concepts.map((c, i) => ({ ...c, recommended: i === pick }));
+}
+
+/** Case-insensitive dedupe, keeping the model's order. */
+function coerceTags(value: unknown, errors: Errors): string[] | null {
+  const tags = coerceStringList(value, "tags", errors);
+  if (!tags) return null;
+
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Hashtags are optional. Spaces are removed and the # added where it was left off. */
+function coerceHashtags(value: unknown, errors: Errors): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string" && !value.includes(",")) value = value.split(/\s+/);
+
+  const hashtags = coerceStringList(value, "hashtags", errors, { min: 0, max: MAX_HASHTAGS });
+  if (!hashtags) return null;
+  return hashtags.map((tag) => `#${tag.replace(/^#+/, "").replace(/\s+/g, "")}`);
+}
+
+function coerceTimeline(value: unknown, errors: Errors): TimelineChapter[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push("timeline: expected a non-empty array of chapters");
+    return null;
+  }
+
+  const chapters: TimelineChapter[] = [];
+  value.forEach((item, i) => {
+    const path = `timeline[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+
+    const timestamp = coerceString(item.timestamp, `${path}.timestamp`, errors);
+    const title = coerceString(item.title, `${path}.title`, errors);
+    if (!timestamp || !title) return;
+
+    if (!TIMESTAMP.test(timestamp)) {
+      errors.push(`${path}.timestamp: expected M:SS or H:MM:SS, got "${timestamp}"`);
+      return;
+    }
+    chapters.push({ timestamp, title });
+  });
+
+  return chapters.length === value.length ? chapters : null;
+}
+
+const SECTION_COERCERS: {
+  [K in AnalysisSection]: (value: unknown, errors: Errors) => AnalysisData[K] | null;
+} = {
+  titles: coerceTitles,
+  description: coerceDescription,
+  thumbnail_concepts: coerceThumbnailConcepts,
+  tags: coerceTags,
+  hashtags: coerceHashtags,
+  timeline: coerceTimeline,
+};
+
+/** Validates one section, as it arrives from the stream. */
+export function validateSection<K extends AnalysisSection>(
+  key: K,
+  value: unknown
+): ValidationResult<AnalysisData[K]> {
+  const errors: Errors = [];
+  const coerced = SECTION_COERCERS[key](value, errors);
+  return { value: errors.length === 0 ? coerced : null, errors };
+}
+
+/** Validates the whole analysis. `value` is only set when every section passed. */
+export function validateAnalysis(raw: unknown): ValidationResult<AnalysisData> {
+  if (!isObject(raw)) {
+    return { value: null, errors: ["response: expected a JSON object"] };
+  }
+
+  const errors: Errors = [];
+  const data: Partial<Record<AnalysisSection, unknown>> = {};
+
+  for (const key of ANALYSIS_SECTIONS) {
+    if (raw[key] === undefined && REQUIRED_SECTIONS.includes(key)) {
+      errors.push(`${key}: missing`);
+      continue;
+    }
+    const result = validateSection(key, raw[key]);
+    errors.push(...result.errors);
+    data[key] = result.value;
+  }
+
+  return { value: errors.length === 0 ? (data as AnalysisData) : null, errors };
+}
@@ -0,0 +1,153 @@
+/**
+ * Section-by-section streaming for /api/analyze.
+ *
+ * gpt-4o writes the analysis as one JSON object, which takes long enough that
+ * the page used to sit on a spinner for most of a minute. The route now streams
+ * the completion, and this scanner watches the raw text for top-level keys
+ * whose values have closed. Each finished section goes to the browser as one
+ * NDJSON line, so the Titles tab can fill in while the timeline is still being
+ * written.
+ */
+
+import { isAnalysisSection, type AnalysisData, type AnalysisSection } from "./analysis";
+import type { CopyLintReport } from "./copy-rules";
+import type { ChapterIssue } from "./chapters";
+import type { UsageSummary } from "./usage";
+import type { PromptVersions } from "./prompt-registry";
+
+export const ANALYSIS_STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+export type AnalysisStreamEvent =
+  | { type: "progress"; message: string }
+  | { type: "section"; key: AnalysisSection; value: unknown }
+  | {
+      type: "done";
+      channel: string;
+      data: AnalysisData;
+      lint: CopyLintReport;
+      chapters: ChapterIssue[];
+      /** Which registry version of each prompt produced the result. */
+      prompt_versions: PromptVersions;
+      /** Transcript keyphrases the prompt was grounded in, best first. */
+      keyphrases: string[];
+      /** When the result was generated, if it came from the cache; null for a fresh run. */
+      cached_at: string | null;
+      usage: UsageSummary;
+    }
+  | { type: "error"; error: string };
+
+export interface SectionScanner {
+  /** Feeds the next chunk of model output and returns any sections it closed. */
+  push(chunk: string): { key: AnalysisSection; value: unknown }[];
+}
+
+/**
+ * Tracks nesting depth and string state across chunks. A top-level value is
+ * complete when a comma or the closing brace appears back at depth 1; its text
+ * is then parsed on its own. Unknown keys are skipped, and a value that will
+ * not parse is left for the final whole-document parse to report.
+ */
+export function createSectionScanner(): SectionScanner {
+  let buffer = "";
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let keyStart = -1;
+  let key: string | null = null;
+  let valueStart = -1;
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const sections: { key: AnalysisSection; value: unknown }[] = [];
+
+      for (; pos < buffer.length; pos++) {
+        const char = buffer[pos];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            if (depth === 1 && keyStart >= 0) {
+              key = JSON.parse(buffer.slice(keyStart, pos + 1));
+              keyStart = -1;
+            }
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+          if (depth === 1 && key === null) keyStart = pos;
+          continue;
+        }
+
+        if (char === "{" || char === "[") {
+          depth++;
+          continue;
+        }
+
+        if (depth === 1 && char === ":" && key !== null && valueStart < 0) {
+          valueStart = pos + 1;
+          continue;
+        }
+
+        const closesTopLevel = depth === 1 && (char === "," || char === "}");
+        if (char === "}" || char === "]") depth--;
+        if (!closesTopLevel) continue;
+
+        if (key !== null && valueStart >= 0) {
+          const raw = buffer.slice(valueStart, pos).trim();
+          if (isAnalysisSection(key)) {
+            try {
+              sections.push({ key, value: JSON.parse(raw) });
+            } catch {
+              // Reported by the final parse once the stream ends.
+            }
+          }
+        }
+        key = null;
+        valueStart = -1;
+      }
+
+      return sections;
+    },
+  };
+}
+
+export function encodeStreamEvent(event: AnalysisStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Reads an NDJSON analysis stream in the browser and hands each event to the
+ * callback as soon as its line is complete.
+ */
+export async function readAnalysisStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnalysisStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+  }
+
+  pending += decoder.decode();
+  if (pending.trim()) onEvent(JSON.parse(pending));
+}
@@ -0,0 +1,80 @@
+/**
+ * The shape of one transcript analysis, shared by the analyze route and the
+ * results page. The keys mirror the JSON structure `buildSystemPrompt` asks the
+ * model for, in the order the model writes them.
+ */
+
+import type { CleanupOptions } from "./transcript-cleanup";
+
+export interface TitleOptions {
+  curiosity_gap: string[];
+  how_to: string[];
+  negative_warning: string[];
+  short_punchy: string;
+}
+
+export interface DescriptionParts {
+  hook: string;
+  story_summary: string;
+  key_takeaways: string[];
+  seo_keywords: string[];
+  cta: string;
+  full_text: string;
+}
+
+export interface ThumbnailConcept {
+  concept: string;
+  text_overlay: string;
+  emotion: string;
+  recommended: boolean;
+}
+
+export interface TimelineChapter {
+  timestamp: string;
+  title: string;
+}
+
+export interface AnalysisData {
+  titles: TitleOptions;
+  description: DescriptionParts;
+  thumbnail_concepts: ThumbnailConcept[];
+  tags: string[];
+  hashtags: string[];
+  timeline: TimelineChapter[];
+}
+
+export type AnalysisSection = keyof AnalysisData;
+
+/** The inputs an analysis was generated from, sent again by follow-up requests. */
+export interface AnalyzeRequest {
+  transcript: string;
+  channel: string;
+  visual_context?: string;
+  video_duration?: string;
+  /** Transcript cleanup rules; any left out use `DEFAULT_CLEANUP`. */
+  cleanup?: CleanupOptions;
+  /** Skip the analysis cache and pay for a new run. */
+  fresh?: boolean;
+}
+
+export const ANALYSIS_SECTIONS: readonly AnalysisSection[] = [
+  "titles",
+  "description",
+  "thumbnail_concepts",
+  "tags",
+  "hashtags",
+  "timeline",
+];
+
+/** Sections the analysis cannot be shown without. Hashtags are optional. */
+export const REQUIRED_SECTIONS: readonly AnalysisSection[] = [
+  "titles",
+  "description",
+  "thumbnail_concepts",
+  "tags",
+  "timeline",
+];
+
+export function isAnalysisSection(key: string): key is AnalysisSection {
+  return (ANALYSIS_SECTIONS as readonly string[]).includes(key);
+}
@@ -0,0 +1,74 @@
+/**
+ * Uploads to and deletes from the Bunny storage zone behind the CDN, for the
+ * libraries that keep files there (reference thumbnails, overlay fonts).
+ *
+ *   BUNNY_STORAGE_ZONE   storage zone name
+ *   BUNNY_ACCESS_KEY     that zone's password (per zone, not the account key)
+ *   BUNNY_CDN_HOST       pull zone host the files are served from
+ */
+
+import { createReplayFetch } from "./replay";
+
+// Upload filenames are random, so a recorded upload is matched on the
+// storage host alone
+const bunnyFetch = createReplayFetch("bunny", (method, url) => `${method} ${url.host}`);
+
+// The timestamp and random suffix `uniqueFilename` and headshot uploads put in a name
+const UNIQUE_PART = /\d{13}-[a-z0-9]{1,6}/g;
+
+/**
+ * Downloads from the CDN (uploaded fonts, headshots, generated images). A
+ * replayed upload hands back a freshly named file, so recordings are matched
+ * on the URL with the unique part of the name masked.
+ */
+export const cdnFetch = createReplayFetch(
+  "cdn",
+  (method, url) => `${method} ${url.host}${url.pathname.replace(UNIQUE_PART, "*")}`
+);
+
+export function bunnyStorage(): { storageZone: string; accessKey: string; cdnHost: string } {
+  const storageZone = process.env.BUNNY_STORAGE_ZONE?.trim();
+  const accessKey = process.env.BUNNY_ACCESS_KEY?.trim();
+  const cdnHost = process.env.BUNNY_CDN_HOST?.trim();
+
+  if (!storageZone || !accessKey || !cdnHost) {
+    throw new Error("Bunny CDN not configured");
+  }
+  return { storageZone, accessKey, cdnHost };
+}
+
+/** A random filename under `folder`, so uploads never overwrite each other. */
+export function uniqueFilename(folder: string, ext: string): string {
+  return `${folder}/${Date.now()}-${Math.random().toString(36).substring(2, 8)}.${ext}`;
+}
+
+/** Stores a file and returns its CDN URL. */
+export async function uploadToBunny(filename: string, bytes: ArrayBuffer, contentType: string): Promise<string> {
+  const { storageZone, accessKey, cdnHost } = bunnyStorage();
+  const response = await bunnyFetch(`https://la.storage.bunnycdn.com/${storageZone}/${filename}`, {
+    method: "PUT",
+    headers: { AccessKey: accessKey, "Content-Type": contentType },
+    body: new Uint8Array(bytes),
+  });
+  if (!response.ok) throw new Error(`Bunny CDN upload failed: ${response.status}`);
+  return `https://${cdnHost}/${filename}`;
+}
+
+/** The storage path of a CDN URL under `folder`, or null for any other URL. */
+export function bunnyPath(url: string, folder: string): string | null {
+  const { cdnHost } = bunnyStorage();
+  const root = `https://${cdnHost}/`;
+  return url.startsWith(`${root}${folder}/`) ? url.slice(root.length) : null;
+}
+
+/** Deletes a stored file. One that is already gone counts as deleted. */
+export async function deleteFromBunny(filename: string): Promise<void> {
+  const { storageZone, accessKey } = bunnyStorage();
+  const response = await bunnyFetch(`https://la.storage.bunnycdn.com/${storageZone}/${filename}`, {
+    method: "DELETE",
+    headers: { AccessKey: accessKey },
+  });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Bunny CDN delete failed: ${response.status}`);
+  }
+}
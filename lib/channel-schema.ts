@@ -0,0 +1,267 @@
+/**
+ * Validation for channel configs saved from the Channels page, shared by the
+ * channel routes and the page itself so errors show before a save. Also the
+ * JSON export format, for moving channels between workspaces.
+ *
+ * Every error names the field it is about ("textFill: expected a hex color
+ * like #39FF14"), so a form can put it next to the input.
+ */
+
+import type { ValidationResult } from "./analysis-schema";
+import type { ChannelConfig } from "./channels";
+
+/** Lower-case slug. It keys usage records and cache entries, so it never changes. */
+export const CHANNEL_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+/** Font ids follow the same slug rules as channel ids. */
+export const FONT_ID_PATTERN = CHANNEL_ID_PATTERN;
+// Taken by the /api/channels/export and /import routes
+const RESERVED_IDS = new Set(["export", "import"]);
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const FOOTER_LINK_NAME = /^[a-z_]+$/;
+const MAX_FIELD_LENGTH = 2000;
+const MAX_LIST_ITEMS = 50;
+/** Style analysis reads every reference thumbnail in one vision call, so keep it small. */
+export const MAX_REFERENCES = 10;
+
+type Errors = string[];
+
+/** The plain-text fields every channel needs, in form order. */
+export const CHANNEL_TEXT_FIELDS = [
+  "name",
+  "handle",
+  "audience",
+  "tone",
+  "topics",
+  "thumbnailColors",
+  "thumbnailStyle",
+  "thumbnailVibe",
+  "thumbnailTextTreatment",
+] as const;
+
+/** CSS values the UI paints with. `accentBg` and `gradient` take any CSS color or gradient. */
+export const CHANNEL_COLOR_FIELDS = ["accentColor", "textFill", "textOutline"] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown, path: string, errors: Errors): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${path}: required`);
+    return null;
+  }
+  if (value.length > MAX_FIELD_LENGTH) {
+    errors.push(`${path}: over ${MAX_FIELD_LENGTH} characters`);
+    return null;
+  }
+  return value.trim();
+}
+
+function hexColor(value: unknown, path: string, errors: Errors): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${path}: required`);
+    return null;
+  }
+  if (!HEX_COLOR.test(value.trim())) {
+    errors.push(`${path}: expected a hex color like #39FF14, got "${value}"`);
+    return null;
+  }
+  return value.trim();
+}
+
+function list(value: unknown, path: string, errors: Errors, min = 0, max = MAX_LIST_ITEMS): string[] | null {
+  if (value === undefined) {
+    if (min === 0) return [];
+    errors.push(`${path}: required`);
+    return null;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    errors.push(`${path}: expected a list of strings`);
+    return null;
+  }
+  const items = value.map((item: string) => item.trim()).filter(Boolean);
+  if (items.length < min) {
+    errors.push(`${path}: needs at least ${min}`);
+    return null;
+  }
+  if (items.length > max) {
+    errors.push(`${path}: at most ${max} entries`);
+    return null;
+  }
+  return items;
+}
+
+function footerLinks(value: unknown, errors: Errors): Record<string, string> | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    errors.push("footerLinks: expected an object of name to URL");
+    return undefined;
+  }
+
+  const links: Record<string, string> = {};
+  for (const [name, url] of Object.entries(value)) {
+    if (!FOOTER_LINK_NAME.test(name)) {
+      errors.push(`footerLinks.${name}: names use lower-case letters and underscores only`);
+    } else if (typeof url !== "string") {
+      errors.push(`footerLinks.${name}: expected a URL`);
+    } else if (url.trim() && !/^https?:\/\//.test(url.trim())) {
+      errors.push(`footerLinks.${name}: expected a URL starting with https://`);
+    } else {
+      links[name] = url.trim();
+    }
+  }
+  return links;
+}
+
+/** Checks a channel from a request body and returns it with strings trimmed. */
+export function validateChannel(value: unknown): ValidationResult<ChannelConfig> {
+  const errors: Errors = [];
+  if (!isObject(value)) return { value: null, errors: ["Expected a channel object"] };
+
+  const id = typeof value.id === "string" ? value.id.trim() : "";
+  if (!CHANNEL_ID_PATTERN.test(id)) {
+    errors.push("id: 2-40 lower-case letters, digits or dashes, starting with a letter or digit");
+  } else if (RESERVED_IDS.has(id)) {
+    errors.push(`id: "${id}" is reserved, pick another`);
+  }
+
+  const fields: Record<string, string | null> = {};
+  for (const field of CHANNEL_TEXT_FIELDS) fields[field] = text(value[field], field, errors);
+  for (const field of CHANNEL_COLOR_FIELDS) fields[field] = hexColor(value[field], field, errors);
+  const accentBg = text(value.accentBg, "accentBg", errors);
+  const gradient = text(value.gradient, "gradient", errors);
+
+  const titlePatterns = list(value.titlePatterns, "titlePatterns", errors, 1);
+  const bannedWords = list(value.bannedWords, "bannedWords", errors);
+  const sampleThumbnails = list(value.sampleThumbnails, "sampleThumbnails", errors, 0, MAX_REFERENCES);
+  const notUrl = sampleThumbnails?.find((url) => !/^https?:\/\//.test(url));
+  if (notUrl) errors.push(`sampleThumbnails: expected image URLs starting with https://, got "${notUrl}"`);
+
+  let descriptionStyle: string | undefined;
+  if (typeof value.descriptionStyle === "string" && value.descriptionStyle.trim()) {
+    descriptionStyle = text(value.descriptionStyle, "descriptionStyle", errors) ?? undefined;
+  } else if (value.descriptionStyle !== undefined && typeof value.descriptionStyle !== "string") {
+    errors.push("descriptionStyle: expected text");
+  }
+
+  let descriptionFooter: string | undefined;
+  if (typeof value.descriptionFooter === "string" && value.descriptionFooter.trim()) {
+    descriptionFooter = value.descriptionFooter.trim();
+  } else if (value.descriptionFooter !== undefined && typeof value.descriptionFooter !== "string") {
+    errors.push("descriptionFooter: expected text");
+  }
+  const links = footerLinks(value.footerLinks, errors);
+
+  let overlayFont: string | undefined;
+  if (typeof value.overlayFont === "string" && value.overlayFont.trim()) {
+    overlayFont = value.overlayFont.trim();
+    if (!FONT_ID_PATTERN.test(overlayFont)) errors.push(`overlayFont: "${overlayFont}" is not a font id`);
+  } else if (value.overlayFont !== undefined && typeof value.overlayFont !== "string") {
+    errors.push("overlayFont: expected a font id");
+  }
+
+  let monthlyBudgetUsd: number | undefined;
+  if (value.monthlyBudgetUsd !== undefined && value.monthlyBudgetUsd !== null && value.monthlyBudgetUsd !== "") {
+    const budget = Number(value.monthlyBudgetUsd);
+    if (!Number.isFinite(budget) || budget <= 0) {
+      errors.push("monthlyBudgetUsd: expected a dollar amount above 0, or nothing for no cap");
+    } else {
+      monthlyBudgetUsd = budget;
+    }
+  }
+
+  if (errors.length > 0 || !titlePatterns || !bannedWords || !sampleThumbnails) {
+    return { value: null, errors };
+  }
+
+  const channel: ChannelConfig = {
+    id,
+    name: fields.name!,
+    handle: fields.handle!,
+    audience: fields.audience!,
+    tone: fields.tone!,
+    topics: fields.topics!,
+    thumbnailColors: fields.thumbnailColors!,
+    titlePatterns,
+    bannedWords,
+    sampleThumbnails,
+    thumbnailStyle: fields.thumbnailStyle!,
+    accentColor: fields.accentColor!,
+    accentBg: accentBg!,
+    gradient: gradient!,
+    thumbnailVibe: fields.thumbnailVibe!,
+    thumbnailTextTreatment: fields.thumbnailTextTreatment!,
+    textFill: fields.textFill!,
+    textOutline: fields.textOutline!,
+    ...(overlayFont ? { overlayFont } : {}),
+    ...(descriptionStyle ? { descriptionStyle } : {}),
+    ...(descriptionFooter ? { descriptionFooter } : {}),
+    ...(links ? { footerLinks: links } : {}),
+    ...(monthlyBudgetUsd !== undefined ? { monthlyBudgetUsd } : {}),
+  };
+  return { value: channel, errors: [] };
+}
+
+/** Marks a file as a channel export, so any other JSON is turned away early. */
+export const CHANNEL_EXPORT_FORMAT = "yva-channels";
+/** Bump when a `ChannelConfig` change needs old files upgraded, and upgrade them in `parseChannelExport`. */
+export const CHANNEL_EXPORT_VERSION = 1;
+
+export interface ChannelExport {
+  readonly format: typeof CHANNEL_EXPORT_FORMAT;
+  readonly version: number;
+  readonly exported_at: string;
+  readonly channels: ChannelConfig[];
+}
+
+export function buildChannelExport(channels: ChannelConfig[]): ChannelExport {
+  return {
+    format: CHANNEL_EXPORT_FORMAT,
+    version: CHANNEL_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    channels,
+  };
+}
+
+/**
+ * Reads an export file. Every channel is checked and every problem reported,
+ * prefixed with the channel it is in, and one bad channel fails the whole
+ * file so an import never lands half done.
+ */
+export function parseChannelExport(value: unknown): ValidationResult<ChannelConfig[]> {
+  if (!isObject(value) || value.format !== CHANNEL_EXPORT_FORMAT) {
+    return { value: null, errors: ["Not a channel export: expected a file from Export on the Channels page"] };
+  }
+  if (typeof value.version !== "number" || !Number.isInteger(value.version) || value.version < 1) {
+    return { value: null, errors: ["version: expected a whole number"] };
+  }
+  if (value.version > CHANNEL_EXPORT_VERSION) {
+    return {
+      value: null,
+      errors: [
+        `version: the file is version ${value.version}, and this app reads up to ${CHANNEL_EXPORT_VERSION}. Update the app first.`,
+      ],
+    };
+  }
+  if (!Array.isArray(value.channels) || value.channels.length === 0) {
+    return { value: null, errors: ["channels: expected at least one channel"] };
+  }
+
+  const errors: Errors = [];
+  const channels: ChannelConfig[] = [];
+  const seen = new Set<string>();
+  value.channels.forEach((item, i) => {
+    const label = isObject(item) && typeof item.id === "string" && item.id ? `${item.id}` : `channels[${i}]`;
+    const result = validateChannel(item);
+    errors.push(...result.errors.map((error) => `${label}: ${error}`));
+    if (!result.value) return;
+    if (seen.has(result.value.id)) {
+      errors.push(`${label}: appears more than once in the file`);
+      return;
+    }
+    seen.add(result.value.id);
+    channels.push(result.value);
+  });
+
+  return errors.length > 0 ? { value: null, errors } : { value: channels, errors: [] };
+}
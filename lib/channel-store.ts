@@ -0,0 +1,322 @@
+/**
+ * Persistent channel configs, so adding a channel or changing a title pattern
+ * is a Channels page edit (`/channels`) rather than a deploy.
+ *
+ *   CHANNEL_STORE       supabase (default) | fs | memory
+ *   CHANNEL_STORE_DIR   where `fs` writes (default: .data/channels)
+ *
+ * An empty store is seeded with `BUILT_IN_CHANNELS` on first read, so a fresh
+ * deploy starts with the usual channels and deleting one sticks. `memory`
+ * loses every edit on restart and is per instance, so it is only used when
+ * asked for. Without Supabase the default warns once at startup, serves the
+ * built-ins and refuses edits. On Vercel use `supabase`, which needs:
+ *
+ *   create table channels (
+ *     id text primary key,
+ *     config jsonb not null,
+ *     created_at timestamptz not null default now(),
+ *     updated_at timestamptz not null default now()
+ *   );
+ *
+ * A store that fails to load serves the built-in channels rather than failing
+ * the request; writes report the failure.
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { bunnyPath, deleteFromBunny } from "./bunny-storage";
+import { parseChannelExport, validateChannel } from "./channel-schema";
+import { BUILT_IN_CHANNELS, type ChannelConfig } from "./channels";
+import { supabaseFetch, supabaseTable } from "./supabase-rest";
+
+export interface StoredChannel {
+  readonly config: ChannelConfig;
+  /** ISO time the channel was added; channels list oldest first. */
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+export interface ChannelStore {
+  list(): Promise<StoredChannel[]>;
+  /** Inserts or replaces by `config.id`. */
+  put(channel: StoredChannel): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/** Thrown for edits the store refuses, with a message fit for the Channels page. */
+export class ChannelError extends Error {
+  readonly reason: "invalid" | "not_found" | "conflict" | "last_channel" | "not_configured";
+
+  constructor(reason: ChannelError["reason"], message: string) {
+    super(message);
+    this.name = "ChannelError";
+    this.reason = reason;
+  }
+}
+
+const CHANNEL_TABLE = "channels";
+
+function createMemoryStore(): ChannelStore {
+  const channels = new Map<string, StoredChannel>();
+  return {
+    async list() {
+      return [...channels.values()];
+    },
+    async put(channel) {
+      channels.set(channel.config.id, channel);
+    },
+    async remove(id) {
+      channels.delete(id);
+    },
+  };
+}
+
+function createFileStore(dir: string): ChannelStore {
+  const file = path.join(dir, "channels.json");
+  const read = async (): Promise<StoredChannel[]> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  };
+  const write = async (channels: StoredChannel[]) => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(file, JSON.stringify(channels, null, 2));
+  };
+  return {
+    list: read,
+    async put(channel) {
+      const channels = await read();
+      const index = channels.findIndex((c) => c.config.id === channel.config.id);
+      if (index === -1) channels.push(channel);
+      else channels[index] = channel;
+      await write(channels);
+    },
+    async remove(id) {
+      await write((await read()).filter((c) => c.config.id !== id));
+    },
+  };
+}
+
+function createSupabaseStore(): ChannelStore | null {
+  const table = supabaseTable(CHANNEL_TABLE);
+  if (!table) return null;
+
+  return {
+    async list() {
+      const response = await supabaseFetch(`${table.url}?select=config,created_at,updated_at`, {
+        headers: table.headers,
+      });
+      if (!response.ok) throw new Error(`Channel read failed: ${response.status}`);
+      return response.json();
+    },
+    async put(channel) {
+      const response = await supabaseFetch(table.url, {
+        method: "POST",
+        headers: { ...table.headers, Prefer: "resolution=merge-duplicates" },
+        body: JSON.stringify({ id: channel.config.id, ...channel }),
+      });
+      if (!response.ok) throw new Error(`Channel write failed: ${response.status}`);
+    },
+    async remove(id) {
+      const response = await supabaseFetch(`${table.url}?id=eq.${encodeURIComponent(id)}`, {
+        method: "DELETE",
+        headers: table.headers,
+      });
+      if (!response.ok) throw new Error(`Channel delete failed: ${response.status}`);
+    },
+  };
+}
+
+/**
+ * Stands in for `supabase` when Supabase is not configured: serves the
+ * built-ins without complaint and refuses every edit, so nothing looks saved
+ * that would vanish on the next cold start.
+ */
+function createUnconfiguredStore(): ChannelStore {
+  const refuse = async () => {
+    throw new ChannelError(
+      "not_configured",
+      "Channels cannot be saved: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or CHANNEL_STORE=fs."
+    );
+  };
+  return { list: async () => builtInChannels(), put: refuse, remove: refuse };
+}
+
+function selectStore(): ChannelStore {
+  const kind = process.env.CHANNEL_STORE?.trim() || "supabase";
+  if (kind === "memory") return createMemoryStore();
+  if (kind === "fs") {
+    return createFileStore(
+      path.resolve(process.cwd(), process.env.CHANNEL_STORE_DIR?.trim() || ".data/channels")
+    );
+  }
+
+  const store = kind === "supabase" ? createSupabaseStore() : null;
+  if (store) return store;
+  console.warn(
+    kind === "supabase"
+      ? "CHANNEL_STORE=supabase but Supabase is not configured; serving the built-in channels read-only"
+      : `Unknown CHANNEL_STORE "${kind}"; serving the built-in channels read-only`
+  );
+  return createUnconfiguredStore();
+}
+
+// Chosen once, so a missing setting is reported at startup rather than per request
+const channelStore = selectStore();
+
+export function getChannelStore(): ChannelStore {
+  return channelStore;
+}
+
+function builtInChannels(): StoredChannel[] {
+  // Staggered by a millisecond so the seeded channels keep their order
+  const seededAt = Date.now();
+  return Object.values(BUILT_IN_CHANNELS).map((config, i) => {
+    const at = new Date(seededAt + i).toISOString();
+    return { config, created_at: at, updated_at: at };
+  });
+}
+
+/** Every stored channel, oldest first, seeding the built-ins into an empty store. */
+async function loadStored(store: ChannelStore): Promise<StoredChannel[]> {
+  const stored = await store.list();
+  if (stored.length === 0) {
+    const seeded = builtInChannels();
+    for (const channel of seeded) await store.put(channel);
+    return seeded;
+  }
+  return [...stored].sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** Every channel, oldest first. Never throws: a store outage serves the built-ins. */
+export async function listChannels(): Promise<ChannelConfig[]> {
+  try {
+    return (await loadStored(getChannelStore())).map((channel) => channel.config);
+  } catch (error) {
+    console.error("Loading channels failed, using the built-ins:", error);
+    return Object.values(BUILT_IN_CHANNELS);
+  }
+}
+
+export async function loadChannel(id: string): Promise<ChannelConfig | undefined> {
+  return (await listChannels()).find((channel) => channel.id === id);
+}
+
+function validated(input: unknown): ChannelConfig {
+  const { value, errors } = validateChannel(input);
+  if (!value) throw new ChannelError("invalid", errors.join("\n"));
+  return value;
+}
+
+export async function createChannel(input: unknown): Promise<ChannelConfig> {
+  const config = validated(input);
+  const store = getChannelStore();
+  const channels = await loadStored(store);
+  if (channels.some((c) => c.config.id === config.id)) {
+    throw new ChannelError("conflict", `A channel with the id "${config.id}" already exists.`);
+  }
+
+  const now = new Date().toISOString();
+  await store.put({ config, created_at: now, updated_at: now });
+  return config;
+}
+
+async function requireStored(store: ChannelStore, id: string): Promise<StoredChannel> {
+  const existing = (await loadStored(store)).find((c) => c.config.id === id);
+  if (!existing) throw new ChannelError("not_found", `No channel with the id "${id}".`);
+  return existing;
+}
+
+/**
+ * Replaces a channel's config. The id in the body must match: ids never change.
+ * The reference thumbnails are kept as stored, since they change through
+ * `setReferences`; a page opened before an upload would otherwise drop it.
+ */
+export async function updateChannel(id: string, input: unknown): Promise<ChannelConfig> {
+  const body = validated(input);
+  if (body.id !== id) {
+    throw new ChannelError("invalid", "id: a channel's id cannot change. Create a new channel instead.");
+  }
+
+  const store = getChannelStore();
+  const existing = await requireStored(store, id);
+  const config = { ...body, sampleThumbnails: existing.config.sampleThumbnails };
+  await store.put({ ...existing, config, updated_at: new Date().toISOString() });
+  return config;
+}
+
+/** Replaces a channel's reference thumbnail URLs; the reference library's only way in. */
+export async function setReferences(id: string, urls: string[]): Promise<ChannelConfig> {
+  const store = getChannelStore();
+  const existing = await requireStored(store, id);
+  const config = validated({ ...existing.config, sampleThumbnails: urls });
+  await store.put({ ...existing, config, updated_at: new Date().toISOString() });
+  return config;
+}
+
+/**
+ * Deletes a channel and the reference thumbnails it uploaded under
+ * `references/<id>/`. Pasted URLs point elsewhere and are left alone, and
+ * overlay fonts are shared by every channel, so they stay too. A failed file
+ * delete only leaves orphans, so it is logged.
+ */
+export async function deleteChannel(id: string): Promise<void> {
+  const store = getChannelStore();
+  const channels = await loadStored(store);
+  const channel = channels.find((c) => c.config.id === id);
+  if (!channel) {
+    throw new ChannelError("not_found", `No channel with the id "${id}".`);
+  }
+  if (channels.length === 1) {
+    throw new ChannelError("last_channel", "This is the only channel. Add another before deleting it.");
+  }
+  await store.remove(id);
+
+  for (const url of channel.config.sampleThumbnails) {
+    try {
+      const stored = bunnyPath(url, `references/${id}`);
+      if (stored) await deleteFromBunny(stored);
+    } catch (error) {
+      console.error(`Deleting reference ${url} failed, the file stays on the CDN:`, error);
+    }
+  }
+}
+
+export interface ChannelImportResult {
+  readonly created: string[];
+  readonly updated: string[];
+  /** Ids already in the store, left alone because `overwrite` was off. */
+  readonly skipped: string[];
+}
+
+/**
+ * Adds every channel in an export file. Channels whose id is already stored
+ * are replaced with `overwrite`, skipped without it. The whole file is
+ * validated before anything is written.
+ */
+export async function importChannels(file: unknown, overwrite: boolean): Promise<ChannelImportResult> {
+  const { value: incoming, errors } = parseChannelExport(file);
+  if (!incoming) throw new ChannelError("invalid", errors.join("\n"));
+
+  const store = getChannelStore();
+  const existing = new Map((await loadStored(store)).map((c) => [c.config.id, c]));
+  const result: ChannelImportResult = { created: [], updated: [], skipped: [] };
+  const now = Date.now();
+
+  for (const [i, config] of incoming.entries()) {
+    const stored = existing.get(config.id);
+    if (stored && !overwrite) {
+      result.skipped.push(config.id);
+      continue;
+    }
+    // Staggered so new channels list in file order
+    const at = new Date(now + i).toISOString();
+    await store.put(stored ? { ...stored, config, updated_at: at } : { config, created_at: at, updated_at: at });
+    (stored ? result.updated : result.created).push(config.id);
+  }
+
+  return result;
+}
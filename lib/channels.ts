@@ -1,4 +1,13 @@
-export type ChannelId = "techtony" | "huntermason" | "cheriscloset";
+/**
+ * Channel configs. The ones below are built in: they seed the channel store
+ * (`channel-store.ts`) the first time it is used, and stand in whenever it
+ * cannot be read. After that, channels are added and edited on the Channels
+ * page (`/channels`), so code should load them from the store or
+ * `/api/channels` rather than read `BUILT_IN_CHANNELS`.
+ */
+
+/** A channel's slug, e.g. "techtony". Any id in the store is valid. */
+export type ChannelId = string;
 
 export interface ChannelConfig {
   id: ChannelId;
@@ -9,6 +18,8 @@ export interface ChannelConfig {
   topics: string;
   thumbnailColors: string;
   titlePatterns: string[];
+  // Words this channel never uses, on top of the shared AI-word list.
+  bannedWords: string[];
   sampleThumbnails: string[];
   thumbnailStyle: string;
   // UI + prompt theming (keyed per channel — no hardcoded ternaries)
@@ -20,9 +31,23 @@ export interface ChannelConfig {
   // Colors for the overlay text the app composites after generation.
   textFill: string;
   textOutline: string;
+  // Overlay font id from the font registry (font-registry.ts). Unset uses
+  // the default face, Anton.
+  overlayFont?: string;
+  // How this channel's descriptions are usually built: opening, length,
+  // lists, sign-off. Fed to the analysis prompt; "Learn voice" proposes it.
+  descriptionStyle?: string;
+  // Ends every description, after the chapters. Takes {{title}}, {{date}},
+  // {{chapters}} and the rest of FOOTER_VARIABLES in description-footer.ts.
+  descriptionFooter?: string;
+  // Named links for the footer, each usable as {{name}}. A line whose link
+  // is unset is left out rather than printed with a gap.
+  footerLinks?: Record<string, string>;
+  // Optional monthly cap on estimated model spend for this channel, in USD.
+  monthlyBudgetUsd?: number;
 }
 
-export const CHANNELS: Record<ChannelId, ChannelConfig> = {
+export const BUILT_IN_CHANNELS: Record<ChannelId, ChannelConfig> = {
   techtony: {
     id: "techtony",
     name: "TechTony",
@@ -37,6 +62,7 @@ export const CHANNELS: Record<ChannelId, ChannelConfig> = {
       "Stop Using [Old Tool], Use This Instead",
       "X Tools I Use to Run My Entire [Business Type]",
     ],
+    bannedWords: ["game-changer", "revolutionary", "mind-blowing", "insane"],
     sampleThumbnails: [],
     thumbnailStyle:
       "High-energy tech aesthetic. Electric blue (#0066FF) and neon green (#39FF14) accents on dark backgrounds. Bold sans-serif text with glow effects. Modern, clean composition with tech gadgets or screens as props. Excited or surprised facial expressions. High saturation, futuristic feel.",
@@ -47,6 +73,16 @@ export const CHANNELS: Record<ChannelId, ChannelConfig> = {
     thumbnailTextTreatment: "Electric blue or neon green text with black outline",
     textFill: "#39FF14",
     textOutline: "#04140A",
+    descriptionFooter: [
+      "Tools I use every day: {{tools}}",
+      "My full AI stack: {{gear}}",
+      "",
+      "Subscribe for more AI tools that actually work: https://www.youtube.com/{{handle}}?sub_confirmation=1",
+      "",
+      "This video is sponsored by {{sponsor}}.",
+      "{{affiliate_disclosure}}",
+    ].join("\n"),
+    footerLinks: {},
   },
   huntermason: {
     id: "huntermason",
@@ -62,6 +98,7 @@ export const CHANNELS: Record<ChannelId, ChannelConfig> = {
       "The Truth About [Common Misconception]",
       "[Number] Things to Know Before [Action]",
     ],
+    bannedWords: ["guaranteed", "get rich", "passive income hack", "risk-free"],
     sampleThumbnails: [],
     thumbnailStyle:
       "Professional real estate aesthetic. Navy blue (#1B365D) and gold (#C5A572) palette. Clean, authoritative composition with property images or professional headshots. Warm, trustworthy tone. Bold white or gold text with subtle drop shadows on dark navy backgrounds. Premium, high-end feel.",
@@ -72,6 +109,15 @@ export const CHANNELS: Record<ChannelId, ChannelConfig> = {
     thumbnailTextTreatment: "Gold or white text with dark navy outline",
     textFill: "#C5A572",
     textOutline: "#0B1A2E",
+    descriptionFooter: [
+      "Get the weekly landlord newsletter: {{newsletter}}",
+      "",
+      "Subscribe for more real estate tips: https://www.youtube.com/{{handle}}?sub_confirmation=1",
+      "",
+      "This video is sponsored by {{sponsor}}.",
+      "This video is for education only and is not financial, legal or tax advice. Talk to a licensed professional before you act on it.",
+    ].join("\n"),
+    footerLinks: {},
   },
   cheriscloset: {
     id: "cheriscloset",
@@ -88,6 +134,7 @@ export const CHANNELS: Record<ChannelId, ChannelConfig> = {
       "I [Action] and What Happened Next Changed Everything",
       "They Thought I Was [Assumption]... They Were Wrong",
     ],
+    bannedWords: ["clickbait", "you won't believe", "gone wrong"],
     sampleThumbnails: [],
     thumbnailStyle:
       "Cinematic faceless-story aesthetic. Warm burgundy (#6B1E3C) and rose (#C25B6E) palette over moody charcoal backgrounds. Illustrated or AI-rendered character caught in an emotional beat (no real host face). Soft dramatic lighting, film-still framing. Bold cream caption text with dark outline. Intimate, suspenseful, emotionally charged mood.",
@@ -98,9 +145,10 @@ export const CHANNELS: Record<ChannelId, ChannelConfig> = {
     thumbnailTextTreatment: "Cream or warm-rose text with deep burgundy outline",
     textFill: "#F5E6D3",
     textOutline: "#3A0F20",
+    descriptionFooter: [
+      "New stories every week. Subscribe so you never miss one: https://www.youtube.com/{{handle}}?sub_confirmation=1",
+      "",
+      "© {{year}} {{channel_name}}",
+    ].join("\n"),
   },
 };
-
-export function getChannel(id: string): ChannelConfig | undefined {
-  return CHANNELS[id as ChannelId];
-}
@@ -0,0 +1,110 @@
+/**
+ * YouTube's chapter rules. A description's timestamps only become chapters
+ * when the first one is at 0:00, there are at least three, they ascend and
+ * each lasts at least 10 seconds. Break one and YouTube silently shows none.
+ *
+ * The model breaks them often enough (a 0:15 start, two chapters at the same
+ * time, one past the end of the video) that the timeline is fixed here before
+ * anyone copies it.
+ */
+
+import type { TimelineChapter } from "./analysis";
+import { formatTimestamp, parseClock } from "./transcript";
+
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_SECONDS = 10;
+
+const CLOCK = /^\d{1,2}(?::\d{2}){1,2}$/;
+
+export type ChapterRule = "first_at_zero" | "ascending" | "min_length" | "past_end" | "min_count";
+
+export interface ChapterIssue {
+  readonly rule: ChapterRule;
+  readonly message: string;
+  /** False when the timeline still breaks the rule and needs a human or a regenerate. */
+  readonly fixed: boolean;
+}
+
+export interface ChapterCheck {
+  readonly timeline: TimelineChapter[];
+  readonly issues: ChapterIssue[];
+}
+
+interface TimedChapter {
+  start: number;
+  title: string;
+}
+
+/**
+ * The video's length in seconds: the typed duration when it is a clock time,
+ * else the end of the last caption cue.
+ */
+export function videoEndSeconds(videoDuration?: string, transcriptDuration?: number): number | undefined {
+  const typed = videoDuration?.trim();
+  if (typed && CLOCK.test(typed)) return parseClock(typed);
+  return transcriptDuration;
+}
+
+/**
+ * Checks the timeline against every chapter rule and repairs what has one
+ * obvious fix: out-of-order chapters are sorted, chapters past the end are
+ * dropped, a late first chapter is moved to 0:00 and chapters under 10
+ * seconds are merged into the one before. Too few chapters cannot be fixed
+ * without inventing content, so that one is only reported.
+ */
+export function checkChapters(timeline: TimelineChapter[], videoEnd?: number): ChapterCheck {
+  const issues: ChapterIssue[] = [];
+  const fix = (rule: ChapterRule, message: string) => issues.push({ rule, message, fixed: true });
+
+  let chapters: TimedChapter[] = timeline.map((c) => ({ start: parseClock(c.timestamp), title: c.title }));
+
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  if (sorted.some((c, i) => c !== chapters[i])) {
+    fix("ascending", "Chapters were out of order and have been sorted");
+  }
+  chapters = sorted;
+
+  if (videoEnd !== undefined) {
+    const past = chapters.filter((c) => c.start >= videoEnd);
+    for (const c of past) {
+      fix("past_end", `Removed "${c.title}" at ${formatTimestamp(c.start)}, after the video ends at ${formatTimestamp(videoEnd)}`);
+    }
+    chapters = chapters.filter((c) => c.start < videoEnd);
+  }
+
+  if (chapters.length > 0 && chapters[0].start !== 0) {
+    fix("first_at_zero", `Moved "${chapters[0].title}" from ${formatTimestamp(chapters[0].start)} to 0:00`);
+    chapters[0] = { ...chapters[0], start: 0 };
+  }
+
+  // A short chapter folds into the one before it, which keeps the earlier start
+  const merged: TimedChapter[] = [];
+  for (const chapter of chapters) {
+    const previous = merged[merged.length - 1];
+    if (previous && chapter.start - previous.start < MIN_CHAPTER_SECONDS) {
+      fix("min_length", `Merged "${chapter.title}" into "${previous.title}", which lasted under ${MIN_CHAPTER_SECONDS} seconds`);
+      continue;
+    }
+    merged.push(chapter);
+  }
+
+  // The last chapter runs to the end of the video
+  const last = merged[merged.length - 1];
+  if (videoEnd !== undefined && merged.length > 1 && videoEnd - last.start < MIN_CHAPTER_SECONDS) {
+    fix("min_length", `Merged "${last.title}" into "${merged[merged.length - 2].title}" because it started under ${MIN_CHAPTER_SECONDS} seconds before the end`);
+    merged.pop();
+  }
+
+  if (merged.length < MIN_CHAPTERS) {
+    issues.push({
+      rule: "min_count",
+      message: `YouTube needs at least ${MIN_CHAPTERS} chapters, this timeline has ${merged.length}. Regenerate the timeline.`,
+      fixed: false,
+    });
+  }
+
+  return {
+    timeline: merged.map((c) => ({ timestamp: formatTimestamp(c.start), title: c.title })),
+    issues,
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Map-reduce analysis for transcripts too long to send in one request.
+ *
+ * Podcasts and livestream VODs run well past what one gpt-4o call can read, so
+ * the transcript is cut into overlapping windows and each window is summarized
+ * on its own (map). The summaries and their chapter candidates, with real
+ * offsets into the video, then go through the normal analysis prompt (reduce)
+ * and come back in the usual AnalysisData shape.
+ */
+
+import { complete } from "./llm";
+import type { UsageMeter } from "./usage";
+import { ChannelConfig } from "./channels";
+import { buildChunkSummaryPrompt } from "./prompts";
+import {
+  formatTimestamp,
+  parseClock,
+  renderSegment,
+  type ParsedTranscript,
+} from "./transcript";
+
+/** Transcripts with more spoken text than this go through the chunked path. */
+export const SINGLE_PASS_LIMIT = 100_000;
+
+const CHUNK_CHARS = 24_000;
+const OVERLAP_CHARS = 2_000;
+const MAP_CONCURRENCY = 4;
+/** Tries per window before a malformed reply gets the window skipped. */
+const SUMMARY_ATTEMPTS = 2;
+/** Candidates closer than this, usually the same break seen from both sides of an overlap, collapse into one. */
+const MIN_CANDIDATE_GAP_SECONDS = 30;
+/** Offsets for untimed transcripts are estimated at the same rate the prompt uses. */
+const WORDS_PER_MINUTE = 150;
+
+export interface TranscriptChunk {
+  readonly index: number;
+  /** Offset of the first line in seconds. */
+  readonly start: number;
+  readonly end: number;
+  /** True when the offsets come from word count rather than cue times. */
+  readonly estimated: boolean;
+  readonly text: string;
+}
+
+export interface ChapterCandidate {
+  readonly start: number;
+  readonly title: string;
+}
+
+export interface ChunkSummary {
+  readonly chunk: TranscriptChunk;
+  readonly summary: string;
+  readonly keyPoints: string[];
+  readonly quotes: string[];
+  readonly chapters: ChapterCandidate[];
+}
+
+interface Unit {
+  readonly start: number;
+  readonly text: string;
+}
+
+/**
+ * Cue lines for timed transcripts, single words with estimated offsets for
+ * plain text. Either way a chunk boundary never splits a unit.
+ */
+function toUnits(transcript: ParsedTranscript): { units: Unit[]; separator: string } {
+  if (transcript.segments.length > 0) {
+    return {
+      units: transcript.segments.map((segment) => ({
+        start: segment.start,
+        text: renderSegment(segment),
+      })),
+      separator: "\n",
+    };
+  }
+
+  const words = transcript.text.split(/\s+/).filter(Boolean);
+  return {
+    units: words.map((word, index) => ({ start: (index / WORDS_PER_MINUTE) * 60, text: word })),
+    separator: " ",
+  };
+}
+
+export function splitTranscript(transcript: ParsedTranscript): TranscriptChunk[] {
+  const { units, separator } = toUnits(transcript);
+  const estimated = transcript.segments.length === 0;
+  const chunks: TranscriptChunk[] = [];
+
+  let first = 0;
+  while (first < units.length) {
+    let last = first;
+    let length = 0;
+    while (last < units.length && (length === 0 || length + units[last].text.length <= CHUNK_CHARS)) {
+      length += units[last].text.length + separator.length;
+      last++;
+    }
+
+    chunks.push({
+      index: chunks.length,
+      start: units[first].start,
+      end:
+        last < units.length
+          ? units[last].start
+          : Math.max(transcript.duration ?? 0, units[last - 1].start),
+      estimated,
+      text: units.slice(first, last).map((unit) => unit.text).join(separator),
+    });
+
+    if (last >= units.length) break;
+
+    // Step back far enough that the next window repeats the tail of this one
+    let next = last;
+    let overlap = 0;
+    while (next - 1 > first && overlap < OVERLAP_CHARS) {
+      next--;
+      overlap += units[next].text.length + separator.length;
+    }
+    first = next;
+  }
+
+  return chunks;
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/** The reply as a JSON object, or null when it is cut off or not JSON at all. */
+function parseSummaryReply(content: string): Record<string, unknown> | null {
+  try {
+    const data = JSON.parse(content || "{}");
+    return typeof data === "object" && data !== null && !Array.isArray(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Summarizes one window. A malformed reply is asked for once more, then the
+ * window is skipped with a warning: every other window is already paid for,
+ * so one bad reply should cost a gap in the summary, not the whole run.
+ */
+async function summarizeChunk(
+  channel: ChannelConfig,
+  chunk: TranscriptChunk,
+  total: number,
+  meter?: UsageMeter
+): Promise<ChunkSummary> {
+  const position = `PART ${chunk.index + 1} OF ${total}, ${chunk.estimated ? "approximately " : ""}${formatTimestamp(chunk.start)} to ${formatTimestamp(chunk.end)}`;
+
+  let data: Record<string, unknown> | null = null;
+  for (let attempt = 1; attempt <= SUMMARY_ATTEMPTS && !data; attempt++) {
+    const completion = await complete({
+      task: "chunk_summary",
+      messages: [
+        { role: "system", content: buildChunkSummaryPrompt(channel) },
+        { role: "user", content: `${position}\n\n${chunk.text}` },
+      ],
+      json: true,
+      temperature: 0.3,
+      maxTokens: 1500,
+      meter,
+    });
+    data = parseSummaryReply(completion.content);
+  }
+
+  if (!data) {
+    console.warn(
+      `Part ${chunk.index + 1} of ${total} has no readable summary after ${SUMMARY_ATTEMPTS} tries, skipping it`
+    );
+    return {
+      chunk,
+      summary: "(This part could not be summarized.)",
+      keyPoints: [],
+      quotes: [],
+      chapters: [],
+    };
+  }
+
+  const chapters: ChapterCandidate[] = Array.isArray(data.chapter_candidates)
+    ? data.chapter_candidates
+        .filter(
+          (c: { timestamp?: unknown; title?: unknown }) =>
+            typeof c?.timestamp === "string" && typeof c?.title === "string"
+        )
+        .map((c: { timestamp: string; title: string }) => ({
+          start: parseClock(c.timestamp),
+          title: c.title,
+        }))
+        .filter((c: ChapterCandidate) => Number.isFinite(c.start))
+    : [];
+
+  return {
+    chunk,
+    summary: typeof data.summary === "string" ? data.summary : "",
+    keyPoints: asStrings(data.key_points),
+    quotes: asStrings(data.quotes),
+    chapters,
+  };
+}
+
+/**
+ * Runs the map step, a few windows at a time so a long VOD neither
+ * serializes into minutes nor trips the provider's rate limit.
+ */
+export async function summarizeChunks(
+  channel: ChannelConfig,
+  chunks: TranscriptChunk[],
+  onProgress?: (done: number, total: number) => void,
+  meter?: UsageMeter
+): Promise<ChunkSummary[]> {
+  const results: ChunkSummary[] = new Array(chunks.length);
+  let nextIndex = 0;
+  let done = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < chunks.length) {
+      const chunk = chunks[nextIndex++];
+      results[chunk.index] = await summarizeChunk(channel, chunk, chunks.length, meter);
+      onProgress?.(++done, chunks.length);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(MAP_CONCURRENCY, chunks.length) }, worker));
+  return results;
+}
+
+/** All candidates in time order, with overlap duplicates dropped and a 0:00 opener guaranteed. */
+export function mergeChapterCandidates(summaries: ChunkSummary[]): ChapterCandidate[] {
+  const all = summaries
+    .flatMap((summary) => summary.chapters)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: ChapterCandidate[] = [];
+  for (const candidate of all) {
+    const previous = merged[merged.length - 1];
+    if (previous && candidate.start - previous.start < MIN_CANDIDATE_GAP_SECONDS) continue;
+    merged.push(candidate);
+  }
+
+  if (merged.length > 0 && merged[0].start < MIN_CANDIDATE_GAP_SECONDS) {
+    merged[0] = { ...merged[0], start: 0 };
+  } else {
+    merged.unshift({ start: 0, title: "Intro" });
+  }
+
+  return merged;
+}
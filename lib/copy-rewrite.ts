@@ -0,0 +1,79 @@
+/**
+ * The model half of copy-rule enforcement. Whatever `applyPunctuationFixes`
+ * cannot fix on its own goes back to the model in one request, and a rewrite is
+ * only kept when it has fewer violations than the text it replaces.
+ */
+
+import type { AnalysisData } from "./analysis";
+import { ChannelConfig } from "./channels";
+import {
+  applyPunctuationFixes,
+  buildLintReport,
+  lintAnalysis,
+  lintField,
+  listFields,
+  setField,
+  type CopyLintReport,
+  type CopyScope,
+} from "./copy-rules";
+import { buildCopyRewritePrompt } from "./prompts";
+import { complete } from "./llm";
+import type { UsageMeter } from "./usage";
+
+/**
+ * `scope` restricts fixing to some sections: the one regenerated, or every
+ * path a refine changed, which share one rewrite call.
+ */
+export async function enforceCopyRules(
+  channel: ChannelConfig,
+  data: AnalysisData,
+  scope: CopyScope = "",
+  meter?: UsageMeter
+): Promise<{ data: AnalysisData; report: CopyLintReport }> {
+  const found = lintAnalysis(data, channel, scope);
+  let result = applyPunctuationFixes(data, channel, scope);
+
+  const needsRewrite = lintAnalysis(result, channel, scope);
+  if (needsRewrite.length > 0) {
+    const fields = listFields(result).filter((f) => needsRewrite.some((v) => v.path === f.path));
+
+    try {
+      const completion = await complete({
+        task: "copy_rewrite",
+        messages: [
+          { role: "system", content: buildCopyRewritePrompt(channel) },
+          {
+            role: "user",
+            content: JSON.stringify({
+              fields: fields.map((f) => ({
+                path: f.path,
+                text: f.text,
+                problems: needsRewrite.filter((v) => v.path === f.path).map((v) => v.message),
+              })),
+            }),
+          },
+        ],
+        json: true,
+        temperature: 0.4,
+        maxTokens: 4000,
+        meter,
+      });
+
+      const rewritten = JSON.parse(completion.content || "{}").fields ?? {};
+      for (const field of fields) {
+        const text = rewritten[field.path];
+        if (typeof text !== "string" || !text.trim()) continue;
+
+        const candidate = { ...field, text: text.trim() };
+        if (lintField(candidate, channel).length < lintField(field, channel).length) {
+          result = setField(result, field.path, candidate.text);
+        }
+      }
+    } catch (error) {
+      // The copy is still usable; the report shows what was left unfixed.
+      console.error("Copy rewrite failed:", error);
+    }
+  }
+
+  return { data: result, report: buildLintReport(found, result, channel) };
+}
@@ -0,0 +1,239 @@
+/**
+ * Server-side enforcement of the copywriting rules in `buildSystemPrompt`.
+ *
+ * The prompt asks for no AI words, no em dashes, titles under 100 characters,
+ * at most one exclamation mark per section and a 6th-8th grade reading level.
+ * The model ignores some of that on most runs, so every field is checked after
+ * generation. Punctuation is fixed here; banned words, long titles and
+ * hard-to-read prose go back to the model (see `copy-rewrite.ts`).
+ */
+
+import type { AnalysisData } from "./analysis";
+import { ChannelConfig } from "./channels";
+
+/** Shared across channels. `ChannelConfig.bannedWords` adds to it. */
+export const BANNED_AI_WORDS = [
+  "Delve",
+  "Unveil",
+  "Comprehensive",
+  "Tapestry",
+  "Landscape",
+  "Realm",
+  "Paradigm",
+  "Leverage",
+  "Synergy",
+  "Elevate",
+  "Pivotal",
+  "Nuanced",
+  "Intricate",
+];
+
+export const MAX_TITLE_LENGTH = 100;
+export const MAX_READING_GRADE = 8;
+/** Flesch-Kincaid swings wildly on a sentence or two, so short text is not graded. */
+const MIN_WORDS_TO_GRADE = 20;
+
+export type CopyRule = "banned_word" | "em_dash" | "title_length" | "exclamation" | "reading_level";
+
+export interface RuleViolation {
+  /** Field path, e.g. "titles.how_to[1]" or "description.hook". */
+  readonly path: string;
+  readonly rule: CopyRule;
+  readonly message: string;
+}
+
+export interface CopyLintReport {
+  /** Violations found in the generated copy that the app fixed. */
+  readonly fixed: RuleViolation[];
+  /** Violations still present after fixing. */
+  readonly remaining: RuleViolation[];
+  /** Share of linted fields with no remaining violations, 0-100. */
+  readonly score: number;
+}
+
+type FieldKind = "title" | "prose" | "label";
+
+export interface CopyField {
+  readonly path: string;
+  readonly text: string;
+  readonly kind: FieldKind;
+}
+
+/** Path prefixes to work on, e.g. "titles.how_to" or every path a refine changed. */
+export type CopyScope = string | readonly string[];
+
+/**
+ * Every piece of copy a viewer reads. Tags and keywords are search terms, not
+ * copy. `scope` limits the list to paths under the given sections.
+ */
+export function listFields(data: AnalysisData, scope: CopyScope = ""): CopyField[] {
+  const { titles, description } = data;
+  const fields: CopyField[] = [
+    ...titles.curiosity_gap.map((text, i) => ({ path: `titles.curiosity_gap[${i}]`, text, kind: "title" as const })),
+    ...titles.how_to.map((text, i) => ({ path: `titles.how_to[${i}]`, text, kind: "title" as const })),
+    ...titles.negative_warning.map((text, i) => ({ path: `titles.negative_warning[${i}]`, text, kind: "title" as const })),
+    { path: "titles.short_punchy", text: titles.short_punchy, kind: "title" },
+    { path: "description.hook", text: description.hook, kind: "prose" },
+    { path: "description.story_summary", text: description.story_summary, kind: "prose" },
+    ...description.key_takeaways.map((text, i) => ({ path: `description.key_takeaways[${i}]`, text, kind: "prose" as const })),
+    { path: "description.cta", text: description.cta, kind: "prose" },
+    { path: "description.full_text", text: description.full_text, kind: "prose" },
+    ...data.thumbnail_concepts.map((c, i) => ({ path: `thumbnail_concepts[${i}].text_overlay`, text: c.text_overlay, kind: "label" as const })),
+    ...data.timeline.map((c, i) => ({ path: `timeline[${i}].title`, text: c.title, kind: "label" as const })),
+  ];
+  const prefixes = typeof scope === "string" ? [scope] : scope;
+  return fields.filter((field) => prefixes.some((prefix) => field.path.startsWith(prefix)));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Inflections a banned word is caught in. Anything longer is another word:
+// "elevate" must not flag "elevator", nor "realm" flag "realmente".
+const INFLECTIONS = "s|es|d|ed|ing";
+
+/**
+ * The whole word plus its inflections. A final "e" may drop before -ing and
+ * -ed, so "delve" also catches "delving" and "leverage" catches "leveraging".
+ */
+function bannedPattern(word: string): RegExp {
+  const forms = [`${escapeRegExp(word)}(?:${INFLECTIONS})?`];
+  if (/e$/i.test(word)) forms.push(`${escapeRegExp(word.slice(0, -1))}(?:ing|ed)`);
+  return new RegExp(`(?<!\\w)(?:${forms.join("|")})(?!\\w)`, "i");
+}
+
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+/** Flesch-Kincaid grade level, or null when the text is too short to grade. */
+export function readingGrade(text: string): number | null {
+  const words = text.match(/[A-Za-z][A-Za-z'-]*/g) ?? [];
+  if (words.length < MIN_WORDS_TO_GRADE) return null;
+
+  const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) ?? []).length);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+}
+
+/** Sections of the assembled description are its paragraphs. */
+function exclamationSections(field: CopyField): string[] {
+  return field.path === "description.full_text" ? field.text.split(/\n\s*\n/) : [field.text];
+}
+
+export function lintField(field: CopyField, channel: ChannelConfig): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const add = (rule: CopyRule, message: string) => violations.push({ path: field.path, rule, message });
+
+  for (const word of [...BANNED_AI_WORDS, ...channel.bannedWords]) {
+    const match = field.text.match(bannedPattern(word));
+    if (match) add("banned_word", `Uses banned word "${match[0]}"`);
+  }
+
+  if (field.text.includes("—")) add("em_dash", "Contains an em dash");
+
+  if (field.kind === "title" && field.text.length >= MAX_TITLE_LENGTH) {
+    add("title_length", `${field.text.length} characters, limit is under ${MAX_TITLE_LENGTH}`);
+  }
+
+  if (exclamationSections(field).some((section) => (section.match(/!/g) ?? []).length > 1)) {
+    add("exclamation", "More than one exclamation mark");
+  }
+
+  if (field.kind === "prose" && field.path !== "description.full_text") {
+    const grade = readingGrade(field.text);
+    if (grade !== null && grade > MAX_READING_GRADE) {
+      add("reading_level", `Reads at grade ${grade.toFixed(1)}, target is ${MAX_READING_GRADE} or below`);
+    }
+  }
+
+  return violations;
+}
+
+export function lintAnalysis(data: AnalysisData, channel: ChannelConfig, scope: CopyScope = ""): RuleViolation[] {
+  return listFields(data, scope).flatMap((field) => lintField(field, channel));
+}
+
+/** Em dashes become commas; every exclamation mark after a section's first becomes a period. */
+function fixPunctuation(field: CopyField): string {
+  return exclamationSections(field)
+    .map((section) => {
+      let count = 0;
+      return section.replace(/!+/g, () => (++count > 1 ? "." : "!"));
+    })
+    .join("\n\n")
+    .replace(/\s*—\s*/g, ", ");
+}
+
+/** Writes a value back at a path produced by `listFields`. */
+export function setField(data: AnalysisData, path: string, value: string): AnalysisData {
+  const copy = structuredClone(data);
+  const keys = path.match(/[^.[\]]+/g) ?? [];
+  let target: Record<string, unknown> = copy as unknown as Record<string, unknown>;
+  keys.slice(0, -1).forEach((key) => {
+    target = target[key] as Record<string, unknown>;
+  });
+  target[keys[keys.length - 1]] = value;
+  return copy;
+}
+
+/** Applies the punctuation fixes to every field that needs them. */
+export function applyPunctuationFixes(
+  data: AnalysisData,
+  channel: ChannelConfig,
+  scope: CopyScope = ""
+): AnalysisData {
+  let result = data;
+  for (const field of listFields(data, scope)) {
+    const rules = lintField(field, channel).map((v) => v.rule);
+    if (rules.includes("em_dash") || rules.includes("exclamation")) {
+      result = setField(result, field.path, fixPunctuation(field));
+    }
+  }
+  return result;
+}
+
+/**
+ * Compares the violations in the generated copy with what is left after
+ * fixing. `remaining` and `score` always cover the whole analysis.
+ */
+export function buildLintReport(
+  found: RuleViolation[],
+  result: AnalysisData,
+  channel: ChannelConfig
+): CopyLintReport {
+  const remaining = lintAnalysis(result, channel);
+  const fixed = found.filter(
+    (v) => !remaining.some((r) => r.path === v.path && r.rule === v.rule)
+  );
+  const fieldCount = listFields(result).length;
+  const failing = new Set(remaining.map((v) => v.path)).size;
+
+  return {
+    fixed,
+    remaining,
+    score: Math.round(((fieldCount - failing) / fieldCount) * 100),
+  };
+}
+
+const OVERLAY_STOPWORDS = new Set(["a", "an", "the", "and", "or", "of", "to", "in", "on", "for", "is", "it", "my", "i", "you", "this"]);
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter((w) => !OVERLAY_STOPWORDS.has(w));
+}
+
+/**
+ * A thumbnail overlay that restates the title wastes the thumbnail: the viewer
+ * reads the same words twice. True when every content word of the overlay is
+ * already in the working title.
+ */
+export function overlayRepeatsTitle(overlay: string, title: string): boolean {
+  const overlayWords = contentWords(overlay);
+  if (overlayWords.length === 0) return false;
+  const titleWords = new Set(contentWords(title));
+  return overlayWords.every((w) => titleWords.has(w));
+}
@@ -0,0 +1,237 @@
+/**
+ * Checks `description.full_text` against how YouTube shows and stores it.
+ *
+ * YouTube rejects a description over 5000 characters or with "<" or ">" in
+ * it. Only the first lines show before "Show more", so the hook has to fit in
+ * them. Hashtags go above the title, the first three in the description, so
+ * they should be ours and not an incidental "#1" in the story; past 15,
+ * YouTube ignores every one.
+ *
+ * The model assembles `full_text` itself and drifts from its own parts, so
+ * most problems are fixed by `assembleDescription`, which rebuilds it from the
+ * structured fields.
+ */
+
+import type { AnalysisData, DescriptionParts } from "./analysis";
+import { renderFooter } from "./description-footer";
+import { formatTimeline, uploadDescription, type UploadPackOptions } from "./upload-pack";
+
+export const DESCRIPTION_LIMIT = 5000;
+export const MAX_HASHTAGS = 15;
+const HASHTAGS_SHOWN = 3;
+
+export type Fold = "desktop" | "mobile";
+
+/**
+ * What shows before "Show more". The character counts are what YouTube fits
+ * on a typical screen, not a hard rule; a line break ends the fold sooner.
+ */
+export const FOLDS: Record<Fold, { label: string; chars: number; lines: number }> = {
+  desktop: { label: "Desktop", chars: 150, lines: 3 },
+  mobile: { label: "Mobile", chars: 100, lines: 2 },
+};
+
+export type DescriptionRule =
+  | "too_long"
+  | "angle_brackets"
+  | "hook_missing"
+  | "hook_fold"
+  | "hashtags_missing"
+  | "hashtags_order"
+  | "too_many_hashtags"
+  | "footer_unset";
+
+export interface DescriptionIssue {
+  readonly rule: DescriptionRule;
+  readonly message: string;
+  /** An error means YouTube will refuse or ignore it, not just that it reads worse. */
+  readonly severity: "error" | "warning";
+  /** Whether `assembleDescription` clears it. */
+  readonly fixable: boolean;
+}
+
+export interface DescriptionReport {
+  /** Characters of what gets pasted, chapters and footer included. */
+  readonly length: number;
+  readonly issues: DescriptionIssue[];
+  readonly folds: Record<Fold, FoldPreview>;
+}
+
+export interface FoldPreview {
+  readonly visible: string;
+  readonly truncated: boolean;
+  /** False when the hook runs past the fold. */
+  readonly hookVisible: boolean;
+}
+
+const HASHTAG = /(?:^|\s)#([\p{L}\p{N}_]+)/gu;
+
+function hashtagText(tag: string): string {
+  return `#${tag.replace(/^#+/, "").replace(/\s+/g, "")}`;
+}
+
+/** Every hashtag in the text, in order, lower-cased. */
+function hashtagsIn(text: string): string[] {
+  return [...text.matchAll(HASHTAG)].map((match) => `#${match[1].toLowerCase()}`);
+}
+
+function stripAngleBrackets(text: string): string {
+  return text.replace(/[<>]/g, "");
+}
+
+export function foldPreview(text: string, fold: Fold, hook = ""): FoldPreview {
+  const { chars, lines } = FOLDS[fold];
+  const byLines = text.split("\n").slice(0, lines).join("\n");
+  const visible = byLines.slice(0, chars);
+  const truncated = visible.length < text.length;
+  const trimmedHook = hook.trim();
+  return {
+    visible: truncated ? `${visible.trimEnd()}...` : visible,
+    truncated,
+    hookVisible: !trimmedHook || visible.includes(trimmedHook),
+  };
+}
+
+/**
+ * `full_text` rebuilt from the parts: hook, story, takeaways, call to action,
+ * then the hashtags on their own line so the first three are ours.
+ */
+export function assembleDescription(description: DescriptionParts, hashtags: string[]): string {
+  const blocks = [
+    description.hook,
+    description.story_summary,
+    description.key_takeaways.map((takeaway) => `- ${takeaway}`).join("\n"),
+    description.cta,
+    hashtags.slice(0, MAX_HASHTAGS).map(hashtagText).join(" "),
+  ];
+  return stripAngleBrackets(
+    blocks
+      .map((block) => block.trim())
+      .filter(Boolean)
+      .join("\n\n")
+  );
+}
+
+type Finding = Omit<DescriptionIssue, "fixable">;
+
+function findIssues(
+  text: string,
+  data: AnalysisData,
+  workingTitle: string,
+  options: UploadPackOptions
+): Finding[] {
+  const { description, hashtags = [] } = data;
+  const pasted = uploadDescription(
+    { ...data, description: { ...description, full_text: text } },
+    workingTitle,
+    options
+  );
+  const hook = description.hook.trim();
+  const findings: Finding[] = [];
+
+  if (pasted.length > DESCRIPTION_LIMIT) {
+    findings.push({
+      rule: "too_long",
+      message: `${pasted.length} characters with chapters and footer; YouTube stops at ${DESCRIPTION_LIMIT}.`,
+      severity: "error",
+    });
+  }
+
+  if (/[<>]/.test(pasted)) {
+    findings.push({
+      rule: "angle_brackets",
+      message: 'YouTube will not save a description with "<" or ">" in it.',
+      severity: "error",
+    });
+  }
+
+  if (hook && !text.trimStart().startsWith(hook)) {
+    findings.push({
+      rule: "hook_missing",
+      message: "The full text does not open with the hook, so the hook is not what shows first.",
+      severity: "warning",
+    });
+  }
+
+  if (hook.length > FOLDS.desktop.chars) {
+    findings.push({
+      rule: "hook_fold",
+      message: `The hook is ${hook.length} characters; about ${FOLDS.desktop.chars} show before "Show more". Shorten it.`,
+      severity: "warning",
+    });
+  }
+
+  // YouTube reads hashtags from the footer too
+  const found = hashtagsIn(pasted);
+  const wanted = hashtags.map((tag) => hashtagText(tag).toLowerCase());
+  const missing = wanted.filter((tag) => !found.includes(tag));
+  if (missing.length > 0) {
+    findings.push({
+      rule: "hashtags_missing",
+      message: `Not in the description: ${missing.join(" ")}.`,
+      severity: "warning",
+    });
+  }
+
+  const shown = found.slice(0, HASHTAGS_SHOWN);
+  if (missing.length === 0 && shown.some((tag, i) => tag !== wanted[i])) {
+    findings.push({
+      rule: "hashtags_order",
+      message: `YouTube would show ${shown.join(" ")} above the title, not the hashtags picked for it.`,
+      severity: "warning",
+    });
+  }
+
+  if (found.length > MAX_HASHTAGS) {
+    findings.push({
+      rule: "too_many_hashtags",
+      message: `${found.length} hashtags; past ${MAX_HASHTAGS} YouTube ignores all of them.`,
+      severity: "error",
+    });
+  }
+
+  const { channel, date = new Date(), sponsor } = options;
+  if (channel?.descriptionFooter) {
+    const { missing: unset } = renderFooter(channel, {
+      title: workingTitle,
+      chapters: formatTimeline(data.timeline),
+      date,
+      sponsor,
+    });
+    if (unset.length > 0) {
+      findings.push({
+        rule: "footer_unset",
+        message: `Footer lines left out, nothing set for ${unset.map((name) => `{{${name}}}`).join(", ")}. Add the links to the channel's footerLinks.`,
+        severity: "warning",
+      });
+    }
+  }
+
+  return findings;
+}
+
+/** An issue is fixable when the reassembled text no longer has it. */
+export function checkDescription(
+  data: AnalysisData,
+  workingTitle = "",
+  options: UploadPackOptions = {}
+): DescriptionReport {
+  const text = data.description.full_text;
+  const hook = data.description.hook.trim();
+  const assembled = assembleDescription(data.description, data.hashtags ?? []);
+  const remaining = new Set(
+    findIssues(assembled, data, workingTitle, options).map((finding) => finding.rule)
+  );
+
+  return {
+    length: uploadDescription(data, workingTitle, options).length,
+    issues: findIssues(text, data, workingTitle, options).map((finding) => ({
+      ...finding,
+      fixable: !remaining.has(finding.rule) && assembled !== text,
+    })),
+    folds: {
+      desktop: foldPreview(text, "desktop", hook),
+      mobile: foldPreview(text, "mobile", hook),
+    },
+  };
+}
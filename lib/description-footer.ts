@@ -0,0 +1,84 @@
+/**
+ * The footer every description on a channel ends with: socials, affiliate and
+ * gear links, disclosures. It comes from `ChannelConfig.descriptionFooter`,
+ * never from the model, so a link is only ever one somebody typed in.
+ *
+ * The template takes the `FOOTER_VARIABLES` below plus one variable per entry
+ * in `ChannelConfig.footerLinks`. A line whose variable has no value is left
+ * out whole, so an unset link drops its line instead of printing "{{gear}}",
+ * and the sponsor line only shows on a sponsored video. The same rule keeps
+ * `{{affiliate_disclosure}}` off a footer that printed no links.
+ */
+
+import type { ChannelConfig } from "./channels";
+import { renderPromptTemplate, templateVariables } from "./prompt-template";
+
+export const FOOTER_VARIABLES: Record<string, string> = {
+  title: "The working title",
+  date: 'The day the description is copied, e.g. "October 19, 2026"',
+  year: "That day's year, for copyright lines",
+  chapters: "The chapter list, one \"M:SS Title\" per line. Without it, chapters go above the footer",
+  sponsor: "The sponsor entered in the Description tab. Lines using it only show on sponsored videos",
+  channel_name: "The channel's display name",
+  handle: "The channel's @handle",
+  affiliate_disclosure: "A standard affiliate link disclosure. Only shows when the footer prints a link",
+};
+
+const AFFILIATE_DISCLOSURE =
+  "Some links above are affiliate links. If you buy through them, I may earn a commission at no extra cost to you.";
+
+export interface FooterContext {
+  readonly title: string;
+  readonly chapters: string;
+  readonly date: Date;
+  readonly sponsor?: string;
+}
+
+export interface RenderedFooter {
+  readonly text: string;
+  /** Whether the template placed the chapters itself. */
+  readonly hasChapters: boolean;
+  /** Links and unknown variables with no value, whose lines were left out. */
+  readonly missing: string[];
+}
+
+export function renderFooter(channel: ChannelConfig, context: FooterContext): RenderedFooter {
+  const template = channel.descriptionFooter ?? "";
+  const values: Record<string, string> = {
+    ...channel.footerLinks,
+    title: context.title,
+    date: context.date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+    year: String(context.date.getFullYear()),
+    chapters: context.chapters,
+    sponsor: context.sponsor ?? "",
+    channel_name: channel.name,
+    handle: channel.handle,
+  };
+
+  const isSet = (name: string) => !!values[name]?.trim();
+  const links = Object.keys(channel.footerLinks ?? {}).filter((name) => !(name in FOOTER_VARIABLES));
+  const printsLink = template.split("\n").some((line) => {
+    const names = templateVariables(line);
+    return (
+      names.some((name) => links.includes(name)) &&
+      names.every((name) => name === "affiliate_disclosure" || isSet(name))
+    );
+  });
+  values.affiliate_disclosure = printsLink ? AFFILIATE_DISCLOSURE : "";
+
+  const missing = new Set<string>();
+  const lines = template.split("\n").filter((line) => {
+    const unset = templateVariables(line).filter((name) => !isSet(name));
+    // An empty built-in, like no sponsor, is not something to fix
+    unset.filter((name) => !(name in FOOTER_VARIABLES)).forEach((name) => missing.add(name));
+    return unset.length === 0;
+  });
+
+  return {
+    text: renderPromptTemplate(lines.join("\n"), values)
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+    hasChapters: templateVariables(template).includes("chapters"),
+    missing: [...missing],
+  };
+}
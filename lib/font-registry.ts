@@ -0,0 +1,318 @@
+/**
+ * The faces the thumbnail overlay can be set in. A channel picks one with
+ * `ChannelConfig.overlayFont`; without one it gets `DEFAULT_FONT_ID`.
+ *
+ * Built-in fonts ship in `assets/` and are traced into the serverless bundle
+ * by `outputFileTracingIncludes` in `next.config.ts`. Fonts uploaded on the
+ * Channels page go to the Bunny CDN under `fonts/<id>/`, with their license
+ * file beside them, and are registered here:
+ *
+ *   FONT_STORE       supabase (default) | fs | memory
+ *   FONT_STORE_DIR   where `fs` writes (default: .data/fonts)
+ *
+ * `memory` loses every upload on restart and is per instance, and is never
+ * picked for you: without Supabase the default warns once at startup, offers
+ * the built-ins only and refuses uploads. On Vercel use `supabase`, which
+ * needs:
+ *
+ *   create table overlay_fonts (
+ *     id text primary key,
+ *     asset jsonb not null,
+ *     created_at timestamptz not null default now()
+ *   );
+ *
+ * A store that fails to load serves the built-in fonts rather than failing the
+ * request, so a channel set to an uploaded font renders in the default face.
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parse as parseFont } from "opentype.js";
+import { bunnyPath, deleteFromBunny, uniqueFilename, uploadToBunny } from "./bunny-storage";
+import { FONT_ID_PATTERN } from "./channel-schema";
+import { listChannels } from "./channel-store";
+import { supabaseFetch, supabaseTable } from "./supabase-rest";
+
+export interface FontAsset {
+  readonly id: string;
+  readonly name: string;
+  /** A path under the project root for built-ins, a CDN URL for uploads. */
+  readonly file: string;
+  /** The license the font is used under, as a path or CDN URL like `file`. */
+  readonly license: string;
+  readonly builtIn: boolean;
+  /** ISO time the font was uploaded; empty for built-ins. */
+  readonly created_at: string;
+}
+
+export interface FontStore {
+  list(): Promise<FontAsset[]>;
+  put(asset: FontAsset): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/** Thrown for uploads and deletes the registry refuses, with a message fit for the Channels page. */
+export class FontError extends Error {
+  readonly reason: "invalid" | "not_found" | "conflict" | "in_use" | "not_configured";
+
+  constructor(reason: FontError["reason"], message: string) {
+    super(message);
+    this.name = "FontError";
+    this.reason = reason;
+  }
+}
+
+export const DEFAULT_FONT_ID = "anton";
+
+export const BUILT_IN_FONTS: FontAsset[] = [
+  {
+    id: DEFAULT_FONT_ID,
+    name: "Anton",
+    file: "assets/Anton-Regular.ttf",
+    license: "assets/OFL.txt",
+    builtIn: true,
+    created_at: "",
+  },
+];
+
+// Vercel caps request bodies at 4.5MB, and both files come in one request
+export const MAX_FONT_SIZE = 3 * 1024 * 1024; // 3MB
+export const MAX_LICENSE_SIZE = 512 * 1024; // 512KB
+
+const FONT_TYPES: Record<string, string> = { ttf: "font/ttf", otf: "font/otf" };
+const LICENSE_TYPES: Record<string, string> = { txt: "text/plain", md: "text/markdown", pdf: "application/pdf" };
+// What a headline can hold after the overlay's normalizing, so the font must draw all of it
+const REQUIRED_GLYPHS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+const FONT_TABLE = "overlay_fonts";
+
+function createMemoryStore(): FontStore {
+  const fonts = new Map<string, FontAsset>();
+  return {
+    async list() {
+      return [...fonts.values()];
+    },
+    async put(asset) {
+      fonts.set(asset.id, asset);
+    },
+    async remove(id) {
+      fonts.delete(id);
+    },
+  };
+}
+
+function createFileStore(dir: string): FontStore {
+  const file = path.join(dir, "fonts.json");
+  const read = async (): Promise<FontAsset[]> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  };
+  const write = async (fonts: FontAsset[]) => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(file, JSON.stringify(fonts, null, 2));
+  };
+  return {
+    list: read,
+    async put(asset) {
+      await write([...(await read()).filter((f) => f.id !== asset.id), asset]);
+    },
+    async remove(id) {
+      await write((await read()).filter((f) => f.id !== id));
+    },
+  };
+}
+
+function createSupabaseStore(): FontStore | null {
+  const table = supabaseTable(FONT_TABLE);
+  if (!table) return null;
+
+  return {
+    async list() {
+      const response = await supabaseFetch(`${table.url}?select=asset`, { headers: table.headers });
+      if (!response.ok) throw new Error(`Font read failed: ${response.status}`);
+      const rows: { asset: FontAsset }[] = await response.json();
+      return rows.map((row) => row.asset);
+    },
+    async put(asset) {
+      const response = await supabaseFetch(table.url, {
+        method: "POST",
+        headers: { ...table.headers, Prefer: "resolution=merge-duplicates" },
+        body: JSON.stringify({ id: asset.id, asset, created_at: asset.created_at }),
+      });
+      if (!response.ok) throw new Error(`Font write failed: ${response.status}`);
+    },
+    async remove(id) {
+      const response = await supabaseFetch(`${table.url}?id=eq.${encodeURIComponent(id)}`, {
+        method: "DELETE",
+        headers: table.headers,
+      });
+      if (!response.ok) throw new Error(`Font delete failed: ${response.status}`);
+    },
+  };
+}
+
+/** What `supabase` falls back to without Supabase: only the built-ins, and uploads refused. */
+function createUnconfiguredStore(): FontStore {
+  const refuse = async () => {
+    throw new FontError(
+      "not_configured",
+      "Fonts cannot be uploaded: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or FONT_STORE=fs."
+    );
+  };
+  return { list: async () => [], put: refuse, remove: refuse };
+}
+
+function selectStore(): FontStore {
+  const kind = process.env.FONT_STORE?.trim() || "supabase";
+  if (kind === "memory") return createMemoryStore();
+  if (kind === "fs") {
+    return createFileStore(path.resolve(process.cwd(), process.env.FONT_STORE_DIR?.trim() || ".data/fonts"));
+  }
+
+  const store = kind === "supabase" ? createSupabaseStore() : null;
+  if (store) return store;
+  console.warn(
+    kind === "supabase"
+      ? "FONT_STORE=supabase but Supabase is not configured; only the built-in fonts are available"
+      : `Unknown FONT_STORE "${kind}"; only the built-in fonts are available`
+  );
+  return createUnconfiguredStore();
+}
+
+const fontStore = selectStore();
+
+export function getFontStore(): FontStore {
+  return fontStore;
+}
+
+/** Built-ins first, then uploads oldest first. Never throws: a store outage serves the built-ins. */
+export async function listFonts(): Promise<FontAsset[]> {
+  try {
+    const uploaded = await getFontStore().list();
+    return [...BUILT_IN_FONTS, ...[...uploaded].sort((a, b) => a.created_at.localeCompare(b.created_at))];
+  } catch (error) {
+    console.error("Loading fonts failed, using the built-ins:", error);
+    return BUILT_IN_FONTS;
+  }
+}
+
+/** The font a channel renders in. An unknown or unset id gets the default. */
+export async function findFont(id: string | undefined): Promise<FontAsset> {
+  const fonts = id && id !== DEFAULT_FONT_ID ? await listFonts() : BUILT_IN_FONTS;
+  const font = fonts.find((f) => f.id === id);
+  if (id && !font) console.error(`Overlay font "${id}" is not registered, using ${DEFAULT_FONT_ID}`);
+  return font ?? BUILT_IN_FONTS[0];
+}
+
+function extension(file: File): string {
+  return file.name.split(".").pop()?.toLowerCase() ?? "";
+}
+
+/** A font id from a display name, e.g. "Bebas Neue" to "bebas-neue". */
+function fontId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+}
+
+/**
+ * Checks a TTF/OTF and its license, uploads both and registers the font. The
+ * name defaults to the family and style stored in the font file. Everything
+ * is checked before anything is uploaded, and a font that fails to register
+ * takes its uploaded files with it.
+ */
+export async function registerFont(font: File, license: File, name?: string): Promise<FontAsset> {
+  const fontExt = extension(font);
+  const licenseExt = extension(license);
+  if (!FONT_TYPES[fontExt]) throw new FontError("invalid", `${font.name}: upload a .ttf or .otf font.`);
+  if (font.size > MAX_FONT_SIZE) throw new FontError("invalid", `${font.name} exceeds the 3MB limit.`);
+  if (!LICENSE_TYPES[licenseExt]) {
+    throw new FontError("invalid", `${license.name}: upload the license as .txt, .md or .pdf.`);
+  }
+  if (license.size > MAX_LICENSE_SIZE) throw new FontError("invalid", `${license.name} exceeds the 512KB limit.`);
+
+  const bytes = await font.arrayBuffer();
+  let parsed;
+  try {
+    parsed = parseFont(bytes);
+  } catch {
+    throw new FontError("invalid", `${font.name} could not be read as a font.`);
+  }
+  const missing = [...REQUIRED_GLYPHS].filter((char) => parsed.charToGlyphIndex(char) === 0);
+  if (missing.length > 0) {
+    throw new FontError("invalid", `${font.name} cannot draw ${missing.join("")}, which headlines need.`);
+  }
+
+  const family = parsed.getEnglishName("fontFamily") || font.name.replace(/\.[^.]+$/, "");
+  const style = parsed.getEnglishName("fontSubfamily");
+  const displayName = name?.trim() || (style && style !== "Regular" ? `${family} ${style}` : family);
+  const id = fontId(displayName);
+  if (!FONT_ID_PATTERN.test(id)) {
+    throw new FontError("invalid", `"${displayName}" does not make a usable font id. Give the font a name.`);
+  }
+  // Read the store itself: `listFonts` would hide an outage and let a duplicate through
+  const store = getFontStore();
+  if ([...BUILT_IN_FONTS, ...(await store.list())].some((f) => f.id === id)) {
+    throw new FontError("conflict", `A font with the id "${id}" already exists. Give this one another name.`);
+  }
+
+  const uploaded: string[] = [];
+  try {
+    uploaded.push(await uploadToBunny(uniqueFilename(`fonts/${id}`, fontExt), bytes, FONT_TYPES[fontExt]));
+    const licenseBytes = await license.arrayBuffer();
+    const licenseFile = uniqueFilename(`fonts/${id}`, licenseExt);
+    uploaded.push(await uploadToBunny(licenseFile, licenseBytes, LICENSE_TYPES[licenseExt]));
+    const asset: FontAsset = {
+      id,
+      name: displayName,
+      file: uploaded[0],
+      license: uploaded[1],
+      builtIn: false,
+      created_at: new Date().toISOString(),
+    };
+    await store.put(asset);
+    return asset;
+  } catch (error) {
+    await deleteFontFiles(id, uploaded);
+    throw error;
+  }
+}
+
+/** Deletes a font's files from the CDN. A failure only leaves orphans, so it is logged. */
+async function deleteFontFiles(id: string, urls: string[]): Promise<void> {
+  try {
+    for (const url of urls) {
+      const stored = bunnyPath(url, `fonts/${id}`);
+      if (stored) await deleteFromBunny(stored);
+    }
+  } catch (error) {
+    console.error(`Deleting the files of font ${id} failed, they stay on the CDN:`, error);
+  }
+}
+
+/**
+ * Unregisters an uploaded font and deletes its files. Refused while a channel
+ * uses it.
+ */
+export async function deleteFont(id: string): Promise<void> {
+  const font = (await listFonts()).find((f) => f.id === id);
+  if (!font) throw new FontError("not_found", `No font with the id "${id}".`);
+  if (font.builtIn) throw new FontError("invalid", `${font.name} is built in and cannot be deleted.`);
+
+  const users = (await listChannels()).filter((channel) => channel.overlayFont === id);
+  if (users.length > 0) {
+    const names = users.map((channel) => channel.name).join(", ");
+    throw new FontError(
+      "in_use",
+      `${names} ${users.length > 1 ? "use" : "uses"} ${font.name}. Pick another font there first.`
+    );
+  }
+
+  await getFontStore().remove(id);
+  await deleteFontFiles(id, [font.file, font.license]);
+}
@@ -0,0 +1,165 @@
+/**
+ * Per-channel background corpus for keyphrase extraction: how many of the
+ * channel's transcripts used each word. Every fresh analysis of a new
+ * transcript adds it, so the weights sharpen as a channel publishes.
+ *
+ *   KEYWORD_CORPUS       supabase (default) | fs | memory | off
+ *   KEYWORD_CORPUS_DIR   where `fs` writes (default: .data/keywords)
+ *
+ * Without Supabase the default warns once at startup and counts in memory,
+ * per instance, like `memory`. `supabase` needs:
+ *
+ *   create table keyword_corpus (
+ *     channel text primary key,
+ *     value jsonb not null,
+ *     updated_at timestamptz not null default now()
+ *   );
+ *
+ * Writes are read-modify-write, so two analyses finishing at once can lose
+ * one count; the weights barely move either way. A corpus that fails to load
+ * is treated as empty, never as a failed analysis.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { EMPTY_CORPUS, documentTerms, type KeywordCorpus } from "./keywords";
+import { supabaseFetch, supabaseTable } from "./supabase-rest";
+
+export interface KeywordCorpusStore {
+  get(channel: string): Promise<KeywordCorpus | null>;
+  set(channel: string, corpus: KeywordCorpus): Promise<void>;
+}
+
+const CORPUS_TABLE = "keyword_corpus";
+// Past this many words the rarest are dropped, to keep the row small
+const MAX_CORPUS_TERMS = 20_000;
+// Hashes remembered for skipping re-runs. Only a transcript older than the
+// last this-many could be counted twice
+const MAX_COUNTED = 2_000;
+
+function createMemoryStore(): KeywordCorpusStore {
+  const corpora = new Map<string, KeywordCorpus>();
+  return {
+    async get(channel) {
+      return corpora.get(channel) ?? null;
+    },
+    async set(channel, corpus) {
+      corpora.set(channel, corpus);
+    },
+  };
+}
+
+function createFileStore(dir: string): KeywordCorpusStore {
+  const file = (channel: string) => path.join(dir, `${channel}.json`);
+  return {
+    async get(channel) {
+      try {
+        return JSON.parse(await readFile(file(channel), "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async set(channel, corpus) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(file(channel), JSON.stringify(corpus));
+    },
+  };
+}
+
+function createSupabaseStore(): KeywordCorpusStore | null {
+  const table = supabaseTable(CORPUS_TABLE);
+  if (!table) return null;
+
+  return {
+    async get(channel) {
+      const response = await supabaseFetch(
+        `${table.url}?channel=eq.${encodeURIComponent(channel)}&select=value`,
+        { headers: table.headers }
+      );
+      if (!response.ok) throw new Error(`Keyword corpus read failed: ${response.status}`);
+      const rows: { value: KeywordCorpus }[] = await response.json();
+      return rows[0]?.value ?? null;
+    },
+    async set(channel, corpus) {
+      const response = await supabaseFetch(table.url, {
+        method: "POST",
+        headers: { ...table.headers, Prefer: "resolution=merge-duplicates" },
+        body: JSON.stringify({ channel, value: corpus, updated_at: new Date().toISOString() }),
+      });
+      if (!response.ok) throw new Error(`Keyword corpus write failed: ${response.status}`);
+    },
+  };
+}
+
+function selectStore(): KeywordCorpusStore | null {
+  const kind = process.env.KEYWORD_CORPUS?.trim() || "supabase";
+  if (kind === "off") return null;
+  if (kind === "memory") return createMemoryStore();
+  if (kind === "fs") {
+    return createFileStore(
+      path.resolve(process.cwd(), process.env.KEYWORD_CORPUS_DIR?.trim() || ".data/keywords")
+    );
+  }
+
+  const store = kind === "supabase" ? createSupabaseStore() : null;
+  if (store) return store;
+  // The app fills the corpus itself, so a per-instance one is still useful
+  console.warn(
+    kind === "supabase"
+      ? "KEYWORD_CORPUS=supabase but Supabase is not configured; counting the corpus in memory, per instance"
+      : `Unknown KEYWORD_CORPUS "${kind}"; counting the corpus in memory, per instance`
+  );
+  return createMemoryStore();
+}
+
+const corpusStore = selectStore();
+
+/** The configured store, or null when the corpus is off. */
+export function getKeywordCorpusStore(): KeywordCorpusStore | null {
+  return corpusStore;
+}
+
+export async function loadKeywordCorpus(channel: string): Promise<KeywordCorpus> {
+  try {
+    return (await getKeywordCorpusStore()?.get(channel)) ?? EMPTY_CORPUS;
+  } catch (error) {
+    console.error("Keyword corpus read failed:", error);
+    return EMPTY_CORPUS;
+  }
+}
+
+/**
+ * Counts one more transcript into the channel's corpus. Never throws.
+ * `original` is the transcript before cleanup: re-running it with other
+ * cleanup options is still the same video, so it is counted once.
+ */
+export async function addToKeywordCorpus(channel: string, text: string, original: string): Promise<void> {
+  try {
+    const store = getKeywordCorpusStore();
+    if (!store) return;
+
+    const corpus = (await store.get(channel)) ?? EMPTY_CORPUS;
+    const hash = createHash("sha256").update(original).digest("hex").slice(0, 16);
+    const counted = corpus.counted ?? [];
+    if (counted.includes(hash)) return;
+
+    const df = { ...corpus.df };
+    for (const term of documentTerms(text)) df[term] = (df[term] ?? 0) + 1;
+
+    const terms = Object.entries(df);
+    const kept =
+      terms.length > MAX_CORPUS_TERMS
+        ? Object.fromEntries(terms.sort((a, b) => b[1] - a[1]).slice(0, MAX_CORPUS_TERMS))
+        : df;
+
+    await store.set(channel, {
+      documents: corpus.documents + 1,
+      df: kept,
+      counted: [...counted, hash].slice(-MAX_COUNTED),
+    });
+  } catch (error) {
+    console.error("Keyword corpus write failed:", error);
+  }
+}
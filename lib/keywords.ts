@@ -0,0 +1,183 @@
+/**
+ * Local keyphrase extraction, run on the transcript before the model sees it.
+ *
+ * Candidates are RAKE-style: runs of content words between stopwords and
+ * punctuation. Each word is weighted TF-IDF style against the channel's
+ * background corpus (`keyword-corpus.ts`), so words every video on the channel
+ * says ("landlord" on HunterMason) rank below what makes this video different.
+ * With an empty corpus the weights fall back to plain frequency.
+ *
+ * The ranked phrases go into the analysis prompt to ground `seo_keywords` and
+ * `tags`, and `tagSupport` flags generated tags the transcript never backs up.
+ */
+
+export interface KeywordCorpus {
+  /** Transcripts counted so far. */
+  readonly documents: number;
+  /** Word -> how many of those transcripts used it. */
+  readonly df: Record<string, number>;
+  /** Hashes of the transcripts counted, oldest first, so a re-run is not counted twice. */
+  readonly counted?: string[];
+}
+
+export interface Keyphrase {
+  readonly phrase: string;
+  readonly score: number;
+  /** Times the phrase appears in the transcript. */
+  readonly count: number;
+}
+
+export const EMPTY_CORPUS: KeywordCorpus = { documents: 0, df: {} };
+
+const MAX_PHRASE_WORDS = 3;
+const MIN_PHRASE_COUNT = 2;
+const MIN_WORD_LENGTH = 3;
+
+// Function words plus the filler that survives caption cleanup
+const STOPWORDS = new Set(
+  `a about above after again against all also am an and any are aren't as at be because been before being
+below between both but by can can't cannot could couldn't did didn't do does doesn't doing don't down during
+each even every few for from further get gets getting go goes going gonna got gotta had hadn't has hasn't
+have haven't having he he'd he'll he's her here here's hers herself him himself his how how's i i'd i'll i'm
+i've if in into is isn't it it's its itself just kind know let let's like lot lots made make makes many may
+me might more most much must mustn't my myself need no nor not now of off oh okay ok on once one only or
+other ought our ours ourselves out over own pretty probably put quite really right said same say says see
+shan't she she'd she'll she's should shouldn't so some something stuff such sure take than thank thanks that
+that's the their theirs them themselves then there there's these they they'd they'll they're they've thing
+things think this those though through to too um uh under until up us very wanna want was wasn't way we we'd
+we'll we're we've well went were weren't what what's when when's where where's whether which while who who's
+whom why why's will with won't would wouldn't yeah yes yet you you'd you'll you're you've your yours yourself
+yourselves actually basically literally maybe mean guys today video channel`.split(/\s+/)
+);
+
+/** Lower case, curly quotes straightened, outer punctuation dropped. */
+function normalize(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+}
+
+/** Crude plural folding, so "landlords" backs up a "landlord" tag. */
+function stem(word: string): string {
+  if (word.endsWith("'s")) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function isContentWord(word: string): boolean {
+  return word.length >= MIN_WORD_LENGTH && !STOPWORDS.has(word) && !/^\d+$/.test(word);
+}
+
+/** Every distinct content word, stemmed, for the background corpus. */
+export function documentTerms(text: string): string[] {
+  const terms = new Set<string>();
+  for (const raw of text.split(/\s+/)) {
+    const word = normalize(raw);
+    if (isContentWord(word)) terms.add(stem(word));
+  }
+  return [...terms];
+}
+
+/**
+ * Runs of content words, broken at stopwords and at sentence and clause
+ * punctuation. Every one- to three-word stretch of a run is a candidate, so
+ * "rent control" is counted inside "rent control sounds great" too.
+ */
+function candidatePhrases(text: string): string[][] {
+  const phrases: string[][] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    for (let start = 0; start < run.length; start++) {
+      for (let size = 1; size <= MAX_PHRASE_WORDS && start + size <= run.length; size++) {
+        phrases.push(run.slice(start, start + size));
+      }
+    }
+    run = [];
+  };
+
+  for (const raw of text.split(/\s+/)) {
+    const word = normalize(raw);
+    if (!isContentWord(word)) {
+      flush();
+      continue;
+    }
+    run.push(word);
+    if (/[.,!?;:()"]$/.test(raw)) flush();
+  }
+  flush();
+
+  return phrases;
+}
+
+export function extractKeyphrases(
+  text: string,
+  corpus: KeywordCorpus = EMPTY_CORPUS,
+  limit = 15
+): Keyphrase[] {
+  const phrases = candidatePhrases(text);
+
+  const termFrequency = new Map<string, number>();
+  for (const phrase of phrases) {
+    if (phrase.length !== 1) continue;
+    const term = stem(phrase[0]);
+    termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+  }
+
+  const weight = (word: string): number => {
+    const term = stem(word);
+    const idf = Math.log((corpus.documents + 1) / ((corpus.df[term] ?? 0) + 1)) + 1;
+    return Math.log(1 + (termFrequency.get(term) ?? 0)) * idf;
+  };
+
+  const counts = new Map<string, { words: string[]; count: number }>();
+  for (const words of phrases) {
+    const key = words.join(" ");
+    const entry = counts.get(key) ?? { words, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+
+  const ranked = [...counts.entries()]
+    .filter(([, { count }]) => count >= MIN_PHRASE_COUNT)
+    .map(([phrase, { words, count }]) => ({
+      phrase,
+      count,
+      // Longer phrases are more specific, so they get a modest boost
+      score:
+        (words.reduce((sum, word) => sum + weight(word), 0) / words.length) *
+        Math.log(1 + count) *
+        (1 + 0.5 * (words.length - 1)),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  // A phrase inside one already picked adds nothing
+  const picked: Keyphrase[] = [];
+  for (const candidate of ranked) {
+    if (picked.length >= limit) break;
+    const inside = picked.some((p) => ` ${p.phrase} `.includes(` ${candidate.phrase} `));
+    if (!inside) picked.push({ ...candidate, score: Math.round(candidate.score * 100) / 100 });
+  }
+
+  return picked;
+}
+
+/**
+ * True when the transcript says every content word of the tag, allowing for
+ * plurals. A tag made only of stopwords has nothing to check and passes.
+ */
+export function tagSupport(tag: string, transcriptTerms: ReadonlySet<string>): boolean {
+  return tag
+    .replace(/^#/, "")
+    .split(/[\s_-]+/)
+    .map(normalize)
+    .filter(isContentWord)
+    .every((word) => transcriptTerms.has(stem(word)));
+}
+
+/** The stemmed word set `tagSupport` checks against. */
+export function transcriptTermSet(text: string): Set<string> {
+  return new Set(documentTerms(text));
+}
@@ -0,0 +1,122 @@
+/**
+ * Canned answers for the fixture LLM provider. Each one is valid for its task,
+ * so the whole pipeline (validation, copy rules, chapter checks) runs end to
+ * end with no network and no credits. The same request always gets the same
+ * answer.
+ */
+
+import type { AnalysisData } from "./analysis";
+import type { LlmRequest } from "./llm";
+
+const SAMPLE_ANALYSIS: AnalysisData = {
+  titles: {
+    curiosity_gap: [
+      "I Tried This for 30 Days and Did Not Expect the Result",
+      "The One Setting Nobody Tells You to Change",
+      "What Happened When I Stopped Doing It the Old Way",
+    ],
+    how_to: [
+      "How to Get the Same Result in Half the Time",
+      "5 Simple Steps to Fix This for Good",
+      "How I Set This Up in One Afternoon",
+    ],
+    negative_warning: [
+      "Stop Making This Mistake Before It Costs You",
+      "3 Things I Wish I Knew Before I Started",
+      "Why Most People Get This Wrong",
+    ],
+    short_punchy: "This Changed Everything",
+  },
+  description: {
+    hook: "I tried something new for 30 days. Here is what actually happened.",
+    story_summary:
+      "In this video I walk through what I changed, what broke and what I would do again. You will see the full setup and the results.",
+    key_takeaways: [
+      "The one change that made the biggest difference",
+      "What to skip if you are just starting",
+      "How to check it is working",
+    ],
+    seo_keywords: ["30 day test", "setup guide", "results"],
+    cta: "Subscribe for the follow-up next week.",
+    full_text:
+      "I tried something new for 30 days. Here is what actually happened.\n\nIn this video I walk through what I changed, what broke and what I would do again. You will see the full setup and the results.\n\nWhat you will learn:\n- The one change that made the biggest difference\n- What to skip if you are just starting\n- How to check it is working\n\nSubscribe for the follow-up next week.\n\n#setup #results #howto",
+  },
+  thumbnail_concepts: [
+    {
+      concept: "Split screen of a messy desk and a clean one, creator pointing at the clean side",
+      text_overlay: "30 DAYS LATER",
+      emotion: "surprise",
+      recommended: true,
+    },
+    {
+      concept: "Close-up of a calendar with every day crossed out in red marker",
+      text_overlay: "IT WORKED",
+      emotion: "satisfaction",
+      recommended: false,
+    },
+    {
+      concept: "Creator holding a printed chart with a sharp upward line",
+      text_overlay: "BEFORE VS AFTER",
+      emotion: "curiosity",
+      recommended: false,
+    },
+  ],
+  tags: ["30 day test", "setup guide", "results", "how to", "beginner guide", "before and after"],
+  hashtags: ["#setup", "#results", "#howto"],
+  timeline: [
+    { timestamp: "0:00", title: "Why I tried this" },
+    { timestamp: "1:00", title: "The setup" },
+    { timestamp: "2:30", title: "What broke" },
+    { timestamp: "4:00", title: "The results" },
+  ],
+};
+
+const SAMPLE_STYLE_GUIDE =
+  "High-contrast, saturated colors on a dark background. One large subject on the right third, close-cropped face with a strong expression. Bold condensed sans-serif headline, two to four words, upper left. Clean composition with a single prop and no clutter.";
+
+const SAMPLE_VOICE = {
+  tone: "Plain and direct, first person, talks like a friend who already tried it",
+  audience: "People partway into the topic who want a tested answer, not theory",
+  title_patterns: ["I Tried [Thing] for [Time]", "Stop [Common Habit], Do This Instead", "[Number] [Things] I Wish I Knew"],
+  description_style:
+    "Opens with one sentence on what was tried and one on the result. Three short bullets on what the video covers, then a one-line subscribe ask.",
+  avoid: ["game-changer", "unlock"],
+  summary: "The fixture provider returns the same proposal for every channel.",
+};
+
+function lastUserText(request: LlmRequest): string {
+  const message = [...request.messages].reverse().find((m) => m.role === "user");
+  if (!message) return "";
+  if (typeof message.content === "string") return message.content;
+  return message.content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+}
+
+export function fixtureResponse(request: LlmRequest): string {
+  switch (request.task) {
+    case "analysis":
+      return JSON.stringify(SAMPLE_ANALYSIS);
+    case "regenerate":
+      // Title buckets come back under their own key, so include those too
+      return JSON.stringify({ ...SAMPLE_ANALYSIS, ...SAMPLE_ANALYSIS.titles });
+    case "chunk_summary": {
+      const [, text = ""] = lastUserText(request).split("\n\n");
+      return JSON.stringify({
+        summary: text.slice(0, 300),
+        key_points: [],
+        quotes: [],
+        chapter_candidates: [],
+      });
+    }
+    case "copy_rewrite":
+      return JSON.stringify({ fields: {} });
+    case "refine":
+      return JSON.stringify({ summary: "The fixture provider does not edit results.", changes: [] });
+    case "style_analysis":
+      return SAMPLE_STYLE_GUIDE;
+    case "thumbnail_prompt":
+      // The crafter's job is to enhance the base prompt; hand it back unchanged
+      return lastUserText(request).split("BASE PROMPT TO ENHANCE:\n")[1] ?? "";
+    case "voice_learning":
+      return JSON.stringify(SAMPLE_VOICE);
+  }
+}
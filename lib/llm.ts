@@ -0,0 +1,251 @@
+/**
+ * Chat-model access for every route and lib that calls an LLM.
+ *
+ * Each call names its task, and the task picks the provider and model from
+ * the environment, so analysis can run on a local model on Tim while style
+ * analysis stays on gpt-4o for vision:
+ *
+ *   LLM_PROVIDER            openai (default) | compatible | fixture
+ *   LLM_PROVIDER_<TASK>     per-task override, e.g. LLM_PROVIDER_ANALYSIS
+ *   LLM_BASE_URL            OpenAI-compatible endpoint (Ollama, llama.cpp server)
+ *   LLM_API_KEY             key for that endpoint, if it wants one
+ *   LLM_MODEL               model for every task
+ *   LLM_MODEL_<TASK>        per-task override, e.g. LLM_MODEL_CHUNK_SUMMARY
+ *
+ * `openai` uses OPENAI_API_KEY and defaults to gpt-4o. `compatible` has no
+ * default model, because what is installed differs per server. `fixture`
+ * answers every task with canned, valid output and never touches the network,
+ * for offline development (see `llm-fixtures.ts`).
+ */
+
+import OpenAI from "openai";
+import { fixtureResponse } from "./llm-fixtures";
+import { createReplayFetch, replayMode } from "./replay";
+import type { TokenUsage, UsageMeter } from "./usage";
+
+export type LlmTask =
+  | "analysis"
+  | "chunk_summary"
+  | "copy_rewrite"
+  | "regenerate"
+  | "refine"
+  | "style_analysis"
+  | "thumbnail_prompt"
+  | "voice_learning";
+
+export type LlmProviderName = "openai" | "compatible" | "fixture";
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string; detail?: "low" | "high" | "auto" } };
+
+export interface LlmMessage {
+  readonly role: "system" | "user" | "assistant";
+  readonly content: string | LlmContentPart[];
+}
+
+export interface LlmRequest {
+  readonly task: LlmTask;
+  readonly messages: LlmMessage[];
+  /** Ask for a single JSON object back. */
+  readonly json?: boolean;
+  readonly temperature?: number;
+  readonly maxTokens?: number;
+  /** Collects this call's token counts for the request's usage totals. */
+  readonly meter?: UsageMeter;
+}
+
+export interface LlmResponse {
+  readonly content: string;
+  /** The model that answered, as the server reports it. */
+  readonly model: string;
+  readonly usage?: TokenUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  complete(request: LlmRequest, model: string): Promise<LlmResponse>;
+  /** Yields the content as it is generated, then reports usage if the server sent it. */
+  stream(
+    request: LlmRequest,
+    model: string,
+    onUsage: (usage: TokenUsage, model: string) => void
+  ): AsyncIterable<string>;
+}
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+const FIXTURE_STREAM_CHUNK = 64;
+
+/** Thrown for every failure mode so routes can map it to one HTTP response. */
+export class LlmError extends Error {
+  readonly reason:
+    | "not_configured"
+    | "auth_failed"
+    | "rate_limited"
+    | "unavailable"
+    | "content_policy"
+    | "request_failed";
+
+  constructor(reason: LlmError["reason"], message: string) {
+    super(message);
+    this.name = "LlmError";
+    this.reason = reason;
+  }
+}
+
+function taskEnv(prefix: string, task: LlmTask): string | undefined {
+  return (process.env[`${prefix}_${task.toUpperCase()}`] || process.env[prefix])?.trim() || undefined;
+}
+
+function providerName(task: LlmTask): LlmProviderName {
+  const name = taskEnv("LLM_PROVIDER", task) ?? "openai";
+  if (name !== "openai" && name !== "compatible" && name !== "fixture") {
+    throw new LlmError("not_configured", `Unknown LLM provider "${name}" for ${task}`);
+  }
+  return name;
+}
+
+function modelFor(task: LlmTask, provider: LlmProviderName): string | undefined {
+  const model = taskEnv("LLM_MODEL", task);
+  if (model) return model;
+  if (provider === "openai") return DEFAULT_OPENAI_MODEL;
+  if (provider === "fixture") return "fixture";
+  return undefined;
+}
+
+/** Maps the SDK's HTTP errors onto `LlmError`, without leaking the message. */
+function toLlmError(error: unknown): unknown {
+  if (!(error instanceof OpenAI.APIError)) return error;
+  if (error.status === 401 || error.status === 403) {
+    return new LlmError("auth_failed", "The AI service rejected the API key");
+  }
+  if (error.status === 429) return new LlmError("rate_limited", "AI service rate limit exceeded");
+  if (error.status === 400 && (error.code === "content_policy_violation" || error.message?.includes("content_policy"))) {
+    return new LlmError("content_policy", "The AI service refused the request under its content policy");
+  }
+  if (error.status === undefined || error.status >= 500) {
+    return new LlmError("unavailable", "AI service temporarily unavailable");
+  }
+  return new LlmError("request_failed", `AI request failed with status ${error.status}`);
+}
+
+function createOpenAIProvider(name: "openai" | "compatible", client: OpenAI): LlmProvider {
+  const params = (request: LlmRequest, model: string) => ({
+    model,
+    messages: request.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    ...(request.json && { response_format: { type: "json_object" as const } }),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+  });
+
+  return {
+    name,
+    async complete(request, model) {
+      try {
+        const completion = await client.chat.completions.create(params(request, model));
+        return {
+          content: completion.choices[0]?.message?.content ?? "",
+          model: completion.model,
+          usage: completion.usage && {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+          },
+        };
+      } catch (error) {
+        throw toLlmError(error);
+      }
+    },
+    async *stream(request, model, onUsage) {
+      try {
+        const completion = await client.chat.completions.create({
+          ...params(request, model),
+          stream: true,
+          stream_options: { include_usage: true },
+        });
+        for await (const chunk of completion) {
+          // The usage chunk comes last, with no choices
+          if (chunk.usage) {
+            onUsage(
+              {
+                promptTokens: chunk.usage.prompt_tokens,
+                completionTokens: chunk.usage.completion_tokens,
+              },
+              chunk.model
+            );
+          }
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (error) {
+        throw toLlmError(error);
+      }
+    },
+  };
+}
+
+function createFixtureProvider(): LlmProvider {
+  return {
+    name: "fixture",
+    async complete(request, model) {
+      return { content: fixtureResponse(request), model };
+    },
+    async *stream(request) {
+      const content = fixtureResponse(request);
+      for (let i = 0; i < content.length; i += FIXTURE_STREAM_CHUNK) {
+        yield content.slice(i, i + FIXTURE_STREAM_CHUNK);
+      }
+    },
+  };
+}
+
+function createProvider(name: LlmProviderName): LlmProvider {
+  if (name === "fixture") return createFixtureProvider();
+
+  if (name === "compatible") {
+    const baseURL = process.env.LLM_BASE_URL?.trim();
+    if (!baseURL) {
+      throw new LlmError("not_configured", "LLM_BASE_URL is required for the compatible provider");
+    }
+    // Local servers ignore the key, but the SDK refuses to start without one
+    const apiKey = process.env.LLM_API_KEY?.trim() || "not-needed";
+    return createOpenAIProvider(name, new OpenAI({ apiKey, baseURL, fetch: createReplayFetch("llm") }));
+  }
+
+  // A replayed session never reaches OpenAI, so it runs without a real key
+  const apiKey = process.env.OPENAI_API_KEY?.trim() || (replayMode() === "replay" ? "not-needed" : undefined);
+  if (!apiKey) throw new LlmError("not_configured", "OPENAI_API_KEY is required for the openai provider");
+  return createOpenAIProvider(name, new OpenAI({ apiKey, fetch: createReplayFetch("llm") }));
+}
+
+function resolve(task: LlmTask): { provider: LlmProvider; model: string } {
+  const name = providerName(task);
+  const model = modelFor(task, name);
+  if (!model) {
+    throw new LlmError("not_configured", `Set LLM_MODEL or LLM_MODEL_${task.toUpperCase()} for ${task}`);
+  }
+  return { provider: createProvider(name), model };
+}
+
+/** True when every task a route needs has a provider and model. Checked before any work starts. */
+export function isLlmConfigured(...tasks: LlmTask[]): boolean {
+  try {
+    tasks.forEach(resolve);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function complete(request: LlmRequest): Promise<LlmResponse> {
+  const { provider, model } = resolve(request.task);
+  const response = await provider.complete(request, model);
+  if (response.usage) request.meter?.record(request.task, response.model, response.usage);
+  return response;
+}
+
+export function streamCompletion(request: LlmRequest): AsyncIterable<string> {
+  const { provider, model } = resolve(request.task);
+  return provider.stream(request, model, (usage, answeredBy) =>
+    request.meter?.record(request.task, answeredBy, usage)
+  );
+}
@@ -0,0 +1,383 @@
+/**
+ * Named, versioned prompt templates, so wording can change from the Prompts
+ * page (`/prompts`) without a deploy.
+ *
+ * Version 1 of every prompt is the built-in template in `prompts.ts`,
+ * `thumbnail-prompts.ts` or `voice-learning.ts`. Saving on the Prompts page
+ * adds the next version and makes it live; rolling back adds a new version
+ * that copies an old one, so the history only ever grows. The newest version
+ * is always the live one.
+ *
+ *   PROMPT_STORE       supabase (default) | fs | memory
+ *   PROMPT_STORE_DIR   where `fs` writes (default: .data/prompts)
+ *
+ * `memory` loses every edit on restart and is per instance, so it has to be
+ * set explicitly. Without Supabase the default warns once at startup, serves
+ * the built-in templates and refuses saves. On Vercel use `supabase`, which
+ * needs:
+ *
+ *   create table prompt_versions (
+ *     name text not null,
+ *     version integer not null,
+ *     template text not null,
+ *     note text not null default '',
+ *     created_at timestamptz not null default now(),
+ *     primary key (name, version)
+ *   );
+ *
+ * A store that fails to load falls back to the built-in template rather than
+ * failing the request, and the response reports version 1 accordingly.
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { ANALYSIS_SYSTEM_TEMPLATE } from "./prompts";
+import {
+  FLUX_PROMPT_TEMPLATE,
+  PROMPT_CRAFTER_TEMPLATE,
+  STYLE_ANALYSIS_TEMPLATE,
+} from "./thumbnail-prompts";
+import { templateVariables } from "./prompt-template";
+import { supabaseFetch, supabaseTable } from "./supabase-rest";
+import { VOICE_LEARNING_TEMPLATE } from "./voice-learning";
+
+export type PromptName =
+  | "analysis_system"
+  | "thumbnail_flux"
+  | "thumbnail_crafter"
+  | "style_analysis"
+  | "voice_learning";
+
+/** Which version of each prompt produced a response. */
+export type PromptVersions = Partial<Record<PromptName, number>>;
+
+export interface PromptDefinition {
+  readonly name: PromptName;
+  readonly label: string;
+  readonly description: string;
+  /** The variables a template may use, with what each one holds. */
+  readonly variables: Record<string, string>;
+  readonly builtIn: string;
+}
+
+export interface PromptVersion {
+  readonly name: PromptName;
+  readonly version: number;
+  readonly template: string;
+  readonly note: string;
+  /** ISO time the version was saved; empty for the built-in version. */
+  readonly created_at: string;
+}
+
+export interface PromptSummary extends PromptDefinition {
+  /** Oldest first. The last entry is the live version. */
+  readonly versions: PromptVersion[];
+}
+
+export interface PromptStore {
+  /** Saved versions of one prompt, in any order. */
+  versions(name: PromptName): Promise<PromptVersion[]>;
+  add(version: PromptVersion): Promise<void>;
+}
+
+/** Thrown for edits the registry refuses, with a message fit for the admin page. */
+export class PromptError extends Error {
+  readonly reason: "unknown_prompt" | "invalid_template" | "unknown_version" | "conflict" | "not_configured";
+
+  constructor(reason: PromptError["reason"], message: string) {
+    super(message);
+    this.name = "PromptError";
+    this.reason = reason;
+  }
+}
+
+const BUILT_IN_VERSION = 1;
+const MAX_TEMPLATE_LENGTH = 50_000;
+const MAX_NOTE_LENGTH = 200;
+const PROMPT_TABLE = "prompt_versions";
+
+const CHANNEL_VARIABLES = {
+  channel_name: "Channel display name",
+};
+
+export const PROMPT_DEFINITIONS: Record<PromptName, PromptDefinition> = {
+  analysis_system: {
+    name: "analysis_system",
+    label: "Analysis system prompt",
+    description:
+      "Writes the titles, description, tags, thumbnail concepts and timeline. Also used by Regenerate and the refine chat.",
+    variables: {
+      ...CHANNEL_VARIABLES,
+      channel_handle: "Channel handle, e.g. @techtonyai",
+      audience: "Channel audience",
+      tone: "Channel tone",
+      topics: "Channel topics",
+      thumbnail_colors: "Channel thumbnail palette",
+      title_patterns: "Channel title patterns, joined with semicolons",
+      description_style: "How the channel's descriptions are built, or a note that it has no house style",
+      max_title_length: "Title length limit from the copy rules",
+      banned_words: "Shared AI-word list plus the channel's banned words, quoted",
+      keyphrases: "Ranked transcript keyphrases from the local extractor, quoted",
+    },
+    builtIn: ANALYSIS_SYSTEM_TEMPLATE,
+  },
+  thumbnail_flux: {
+    name: "thumbnail_flux",
+    label: "FLUX base prompt",
+    description:
+      "The scene brief handed to the prompt crafter. Keep the no-text and full-bleed instructions (see PLAYBOOK Gotchas).",
+    variables: {
+      ...CHANNEL_VARIABLES,
+      concept: "The thumbnail concept being generated",
+      channel_style: "Channel thumbnail palette and vibe",
+      style_reference: "STYLE REFERENCE section, or empty without a style guide",
+      headshot_space: "PERSON PLACEMENT section, or empty without a headshot",
+      mood: "Urgent or curious, picked from the concept",
+    },
+    builtIn: FLUX_PROMPT_TEMPLATE,
+  },
+  thumbnail_crafter: {
+    name: "thumbnail_crafter",
+    label: "Thumbnail prompt crafter",
+    description: "System prompt for the model that turns the FLUX base prompt into the final FLUX prompt.",
+    variables: {
+      ...CHANNEL_VARIABLES,
+      thumbnail_colors: "Channel thumbnail palette",
+      thumbnail_vibe: "Channel thumbnail vibe",
+      thumbnail_style: "Channel default style guide",
+    },
+    builtIn: PROMPT_CRAFTER_TEMPLATE,
+  },
+  style_analysis: {
+    name: "style_analysis",
+    label: "Style analysis",
+    description: "Vision prompt that turns sample thumbnails into a style guide.",
+    variables: {
+      channel_name: "Channel display name, or empty when none was picked",
+    },
+    builtIn: STYLE_ANALYSIS_TEMPLATE,
+  },
+  voice_learning: {
+    name: "voice_learning",
+    label: "Voice learning",
+    description:
+      "Reads a channel's past titles and descriptions and proposes tone, audience, title patterns, description style and banned words.",
+    variables: {
+      ...CHANNEL_VARIABLES,
+      tone: "Current channel tone",
+      audience: "Current channel audience",
+      title_patterns: "Current title patterns, joined with semicolons",
+      description_style: "Current description style, or \"not set\"",
+      banned_words: "The channel's own banned words, quoted, or \"none\"",
+    },
+    builtIn: VOICE_LEARNING_TEMPLATE,
+  },
+};
+
+export function isPromptName(value: unknown): value is PromptName {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PROMPT_DEFINITIONS, value);
+}
+
+function builtInVersion(name: PromptName): PromptVersion {
+  return {
+    name,
+    version: BUILT_IN_VERSION,
+    template: PROMPT_DEFINITIONS[name].builtIn,
+    note: "Built-in",
+    created_at: "",
+  };
+}
+
+function createMemoryStore(): PromptStore {
+  const saved: PromptVersion[] = [];
+  return {
+    async versions(name) {
+      return saved.filter((v) => v.name === name);
+    },
+    async add(version) {
+      saved.push(version);
+    },
+  };
+}
+
+function createFileStore(dir: string): PromptStore {
+  const file = (name: PromptName) => path.join(dir, `${name}.json`);
+  const read = async (name: PromptName): Promise<PromptVersion[]> => {
+    try {
+      return JSON.parse(await readFile(file(name), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  };
+  return {
+    versions: read,
+    async add(version) {
+      const versions = await read(version.name);
+      await mkdir(dir, { recursive: true });
+      await writeFile(file(version.name), JSON.stringify([...versions, version], null, 2));
+    },
+  };
+}
+
+function createSupabaseStore(): PromptStore | null {
+  const table = supabaseTable(PROMPT_TABLE);
+  if (!table) return null;
+
+  return {
+    async versions(name) {
+      const response = await supabaseFetch(
+        `${table.url}?name=eq.${name}&select=name,version,template,note,created_at`,
+        { headers: table.headers }
+      );
+      if (!response.ok) throw new Error(`Prompt read failed: ${response.status}`);
+      return response.json();
+    },
+    async add(version) {
+      const response = await supabaseFetch(table.url, {
+        method: "POST",
+        headers: table.headers,
+        body: JSON.stringify(version),
+      });
+      // Two saves raced for the same version number
+      if (response.status === 409) {
+        throw new PromptError("conflict", "Someone else saved this prompt just now. Reload and try again.");
+      }
+      if (!response.ok) throw new Error(`Prompt write failed: ${response.status}`);
+    },
+  };
+}
+
+/** What `supabase` falls back to without Supabase: no saved versions, and saving refused. */
+function createUnconfiguredStore(): PromptStore {
+  return {
+    async versions() {
+      return [];
+    },
+    async add() {
+      throw new PromptError(
+        "not_configured",
+        "Prompts cannot be saved: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or PROMPT_STORE=fs."
+      );
+    },
+  };
+}
+
+function selectStore(): PromptStore {
+  const kind = process.env.PROMPT_STORE?.trim() || "supabase";
+  if (kind === "memory") return createMemoryStore();
+  if (kind === "fs") {
+    return createFileStore(
+      path.resolve(process.cwd(), process.env.PROMPT_STORE_DIR?.trim() || ".data/prompts")
+    );
+  }
+
+  const store = kind === "supabase" ? createSupabaseStore() : null;
+  if (store) return store;
+  console.warn(
+    kind === "supabase"
+      ? "PROMPT_STORE=supabase but Supabase is not configured; using the built-in prompts, saving is off"
+      : `Unknown PROMPT_STORE "${kind}"; using the built-in prompts, saving is off`
+  );
+  return createUnconfiguredStore();
+}
+
+const promptStore = selectStore();
+
+export function getPromptStore(): PromptStore {
+  return promptStore;
+}
+
+/** Built-in first, then saved versions in order. */
+async function loadVersions(name: PromptName): Promise<PromptVersion[]> {
+  const saved = await getPromptStore().versions(name);
+  return [builtInVersion(name), ...[...saved].sort((a, b) => a.version - b.version)];
+}
+
+/** The live version of a prompt. Never throws: a store outage serves the built-in. */
+export async function getActivePrompt(name: PromptName): Promise<PromptVersion> {
+  try {
+    const versions = await loadVersions(name);
+    return versions[versions.length - 1];
+  } catch (error) {
+    console.error(`Loading prompt ${name} failed, using the built-in:`, error);
+    return builtInVersion(name);
+  }
+}
+
+export async function listPrompts(): Promise<PromptSummary[]> {
+  return Promise.all(
+    Object.values(PROMPT_DEFINITIONS).map(async (definition) => ({
+      ...definition,
+      versions: await loadVersions(definition.name),
+    }))
+  );
+}
+
+function validateTemplate(name: PromptName, template: unknown): string {
+  if (typeof template !== "string" || !template.trim()) {
+    throw new PromptError("invalid_template", "The prompt is empty.");
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new PromptError(
+      "invalid_template",
+      `The prompt is over the ${MAX_TEMPLATE_LENGTH.toLocaleString()} character limit.`
+    );
+  }
+
+  const allowed = PROMPT_DEFINITIONS[name].variables;
+  const unknown = templateVariables(template).filter(
+    (variable) => !Object.prototype.hasOwnProperty.call(allowed, variable)
+  );
+  if (unknown.length > 0) {
+    throw new PromptError(
+      "invalid_template",
+      `Unknown variable${unknown.length > 1 ? "s" : ""}: ${unknown.map((v) => `{{${v}}}`).join(", ")}. This prompt can use ${Object.keys(allowed)
+        .map((v) => `{{${v}}}`)
+        .join(", ")}.`
+    );
+  }
+
+  return template;
+}
+
+async function addVersion(name: PromptName, template: string, note: string): Promise<PromptVersion> {
+  const versions = await loadVersions(name);
+  if (versions[versions.length - 1].template === template) {
+    throw new PromptError("invalid_template", "Nothing changed since the live version.");
+  }
+
+  const version: PromptVersion = {
+    name,
+    version: versions[versions.length - 1].version + 1,
+    template,
+    note: note.trim().slice(0, MAX_NOTE_LENGTH),
+    created_at: new Date().toISOString(),
+  };
+  await getPromptStore().add(version);
+  return version;
+}
+
+/** Saves an edited template as the next version, which goes live at once. */
+export async function savePromptVersion(
+  name: string,
+  template: unknown,
+  note: unknown
+): Promise<PromptVersion> {
+  if (!isPromptName(name)) throw new PromptError("unknown_prompt", "Unknown prompt.");
+  return addVersion(name, validateTemplate(name, template), typeof note === "string" ? note : "");
+}
+
+/** Makes an older version live again by saving a copy of it as the next version. */
+export async function rollbackPrompt(name: string, version: unknown): Promise<PromptVersion> {
+  if (!isPromptName(name)) throw new PromptError("unknown_prompt", "Unknown prompt.");
+
+  const versions = await loadVersions(name);
+  const target = versions.find((v) => v.version === version);
+  if (!target) throw new PromptError("unknown_version", `Version ${String(version)} does not exist.`);
+  if (target.template === versions[versions.length - 1].template) {
+    throw new PromptError("invalid_template", `v${target.version} is already the live wording.`);
+  }
+
+  return addVersion(name, target.template, `Rolled back to v${target.version}`);
+}
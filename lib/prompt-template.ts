@@ -0,0 +1,57 @@
+/**
+ * `{{variable}}` templates for the prompts kept in the prompt registry, plus
+ * the line diff the prompt admin page shows between versions. Nothing here
+ * touches the server, so the page can import it too.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export type DiffLine = { type: "same" | "added" | "removed"; text: string };
+
+/** Fills every `{{name}}` from `values`. Unknown names are left as written. */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
+
+/** Every distinct variable name the template uses, in order of first use. */
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))];
+}
+
+/**
+ * Line-by-line diff from `before` to `after`, from a longest common
+ * subsequence table. Prompts run to a few hundred lines, so the quadratic
+ * table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
@@ -1,14 +1,37 @@
 import { ChannelConfig } from "./channels";
+import { formatTimestamp, renderTranscript, type ParsedTranscript } from "./transcript";
+import type { ChapterCandidate, ChunkSummary } from "./chunked-analysis";
+import { BANNED_AI_WORDS, MAX_READING_GRADE, MAX_TITLE_LENGTH } from "./copy-rules";
+import type { AnalysisData } from "./analysis";
+import { REGENERATE_LABELS, responseKeys, type RegenerateTarget } from "./regenerate";
+import { REFINABLE_PATHS, type RefineTurn } from "./refine";
+import { renderPromptTemplate } from "./prompt-template";
 
-export function buildSystemPrompt(channel: ChannelConfig): string {
-  return `You are the "Viral Video Architect," an expert YouTube strategist and copywriter with deep understanding of the YouTube algorithm, click-through rate (CTR) psychology, and SEO.
+/**
+ * Bump when a prompt change should retire cached analyses. The rendered
+ * system prompt is hashed into the cache key too, so channel edits and prompt
+ * versions saved on the Prompts page need no bump.
+ */
+export const PROMPT_VERSION = 1;
 
-You are creating content for the "${channel.name}" channel (${channel.handle}).
-Target audience: ${channel.audience}
-Tone: ${channel.tone}
-Topics: ${channel.topics}
-Thumbnail color palette: ${channel.thumbnailColors}
-Title patterns that work for this channel: ${channel.titlePatterns.join("; ")}
+function bannedWordList(channel: ChannelConfig): string {
+  return [...BANNED_AI_WORDS, ...channel.bannedWords].map((word) => `"${word}"`).join(", ");
+}
+
+/**
+ * Built-in wording of the analysis system prompt. The prompt registry serves
+ * an edited version in its place once one is saved on the Prompts page.
+ */
+export const ANALYSIS_SYSTEM_TEMPLATE = `You are the "Viral Video Architect," an expert YouTube strategist and copywriter with deep understanding of the YouTube algorithm, click-through rate (CTR) psychology, and SEO.
+
+You are creating content for the "{{channel_name}}" channel ({{channel_handle}}).
+Target audience: {{audience}}
+Tone: {{tone}}
+Topics: {{topics}}
+Thumbnail color palette: {{thumbnail_colors}}
+Title patterns that work for this channel: {{title_patterns}}
+How this channel's descriptions are built: {{description_style}}
+Keyphrases this transcript actually uses, ranked by a local extractor: {{keyphrases}}
 
 YOUR GOAL: Analyze video transcripts to generate high-performing, viral-optimized metadata (Titles, Descriptions, Tags, Thumbnail concepts, and Timeline).
 
@@ -39,7 +62,7 @@ Structure:
 - The Hook (First 2 lines): Compelling opening that forces "Show More" click
 - The Story (1 paragraph): Emotional summary without spoiling the ending
 - Key Takeaways (3-5 bullet points): What will the viewer learn or experience?
-- SEO Keywords: 5-10 high-volume search terms naturally woven in
+- SEO Keywords: 5-10 high-volume search terms naturally woven in, drawn from the keyphrases above where they fit
 - Call to Action: Subscribe/like/comment prompt
 - Full Text: The complete assembled description ready to paste (include hook, story, takeaways, hashtags, and CTA combined)
 
@@ -51,11 +74,11 @@ C. THUMBNAIL CONCEPTS (3 Ideas):
 - Mark the best one as recommended
 
 D. TAGS & HASHTAGS:
-- 15 comma-separated tags optimized for search
+- 15 comma-separated tags optimized for search, built from the keyphrases above and other words the video actually says
 - 3 hashtags for the description
 
 E. TIMELINE/CHAPTERS:
-Create chapter markers with timestamps. If timestamps exist in the transcript, use them. If not, estimate based on word count (~150 words/minute). Identify natural break points (topic changes). Aim for chapters every 2-5 minutes.
+Create chapter markers with timestamps. If the transcript lines start with [M:SS] cue times, every chapter timestamp must be one of those cue times. If not, estimate based on word count (~150 words/minute). Identify natural break points (topic changes). Aim for chapters every 2-5 minutes.
 
 RESPOND WITH THIS EXACT JSON STRUCTURE:
 {
@@ -105,19 +128,223 @@ CRITICAL RULES:
 - Use "You" or "Your" instead of "I" or "me" in descriptions
 - Keep language punchy, conversational, 6th-8th grade reading level
 - Prioritize HIGH CTR over formal accuracy
+- Every SEO keyword and tag must be something the video actually talks about
 - Do not reveal the ending or main payoff in descriptions
-- All titles must be under 100 characters
-- NEVER use these AI words: "Delve," "Unveil," "Comprehensive," "Tapestry," "Landscape," "Realm," "Paradigm," "Leverage," "Synergy," "Elevate," "Pivotal," "Nuanced," "Intricate"
+- All titles must be under {{max_title_length}} characters
+- NEVER use these words: {{banned_words}}
 - No em dashes
 - Maximum 1 exclamation mark per section`;
+
+/**
+ * Values for the `{{variables}}` in the analysis system prompt. Keyphrases
+ * come from `extractKeyphrases`, best first.
+ */
+export function analysisSystemVariables(
+  channel: ChannelConfig,
+  keyphrases: string[] = []
+): Record<string, string> {
+  return {
+    channel_name: channel.name,
+    channel_handle: channel.handle,
+    audience: channel.audience,
+    tone: channel.tone,
+    topics: channel.topics,
+    thumbnail_colors: channel.thumbnailColors,
+    title_patterns: channel.titlePatterns.join("; "),
+    description_style: channel.descriptionStyle ?? "no house style, so follow the structure below",
+    max_title_length: String(MAX_TITLE_LENGTH),
+    banned_words: bannedWordList(channel),
+    keyphrases:
+      keyphrases.length > 0
+        ? keyphrases.map((phrase) => `"${phrase}"`).join(", ")
+        : "none found, so rely on the transcript itself",
+  };
+}
+
+export function buildSystemPrompt(
+  channel: ChannelConfig,
+  template: string = ANALYSIS_SYSTEM_TEMPLATE,
+  keyphrases: string[] = []
+): string {
+  return renderPromptTemplate(template, analysisSystemVariables(channel, keyphrases));
 }
 
 export function buildUserMessage(
-  transcript: string,
+  transcript: ParsedTranscript,
+  visualContext?: string,
+  videoDuration?: string
+): string {
+  let message = `Analyze this video transcript and generate viral-optimized metadata:\n\n${renderTranscript(transcript)}`;
+
+  if (visualContext) {
+    message += `\n\nVISUAL CONTEXT: ${visualContext}`;
+  }
+
+  if (videoDuration) {
+    message += `\n\nVIDEO DURATION: ${videoDuration}`;
+  }
+
+  return message;
+}
+
+/**
+ * User turn for single-section regeneration, sent with the usual system
+ * prompt. Transcripts past the single-pass limit are left out and the current
+ * results carry the context instead.
+ */
+export function buildRegenerateMessage(
+  target: RegenerateTarget,
+  previous: AnalysisData,
+  transcript: ParsedTranscript | null,
+  visualContext?: string,
+  videoDuration?: string
+): string {
+  const base = transcript
+    ? buildUserMessage(transcript, visualContext, videoDuration)
+    : "The transcript is too long to include again. Work from the current results below, which were generated from it.";
+
+  const keys = responseKeys(target)
+    .map((key) => `"${key}"`)
+    .join(" and ");
+
+  return `${base}
+
+CURRENT RESULTS:
+${JSON.stringify(previous, null, 2)}
+
+TASK: Regenerate ONLY ${REGENERATE_LABELS[target]}. The new version must be clearly different from the current one, follow every rule in your instructions, and stay consistent with the rest of the current results.
+
+Respond with a JSON object that has only ${keys} at the top level, each shaped exactly as in the full structure.`;
+}
+
+/**
+ * One chat instruction against the current results. The model answers with a
+ * patch of whole fields rather than the full analysis, so sections the
+ * instruction did not mention cannot drift.
+ */
+export function buildRefineMessage(
+  instruction: string,
+  current: AnalysisData,
+  history: RefineTurn[],
+  transcript: ParsedTranscript | null,
+  visualContext?: string,
+  videoDuration?: string
+): string {
+  const base = transcript
+    ? buildUserMessage(transcript, visualContext, videoDuration)
+    : "The transcript is too long to include again. Work from the current results below, which were generated from it.";
+
+  const earlier =
+    history.length > 0
+      ? `\n\nEARLIER REQUESTS (already applied to the current results):\n${history
+          .map((turn) => `- "${turn.instruction}" -> ${turn.summary}`)
+          .join("\n")}`
+      : "";
+
+  return `${base}
+
+CURRENT RESULTS:
+${JSON.stringify(current, null, 2)}${earlier}
+
+REQUEST: ${instruction}
+
+TASK: Change the current results to satisfy the request. Change only what the request is about and keep everything else exactly as it is. Every rule in your instructions still applies. If you change a description part, also return "description.full_text" with the change worked in.
+
+Allowed paths: ${REFINABLE_PATHS.join(", ")}
+
+RESPOND WITH THIS EXACT JSON STRUCTURE:
+{
+  "summary": "One short sentence saying what you changed",
+  "changes": [
+    {"path": "titles.negative_warning", "value": ["New title 1", "New title 2", "New title 3"]}
+  ]
+}
+
+Each "value" replaces the whole field at its path and is shaped exactly as in the full structure. If the request needs no change, return an empty "changes" array and say why in "summary".`;
+}
+
+/**
+ * Rewrites the fields that still break the copy rules after the local
+ * punctuation fixes. Field paths come back as keys so each rewrite lands in
+ * the right place.
+ */
+export function buildCopyRewritePrompt(channel: ChannelConfig): string {
+  return `You are a YouTube copy editor for the "${channel.name}" channel (${channel.handle}). Tone: ${channel.tone}. Audience: ${channel.audience}.
+
+You receive JSON with a "fields" array. Each field has a "path", its current "text" and the "problems" found in it. Rewrite each text so it fixes every listed problem while keeping its meaning, hook and length as close to the original as possible.
+
+HARD RULES:
+- NEVER use these words or any form of them: ${bannedWordList(channel)}
+- No em dashes
+- Titles (paths starting with "titles.") must be under ${MAX_TITLE_LENGTH} characters
+- Maximum 1 exclamation mark per paragraph
+- Short words and short sentences, ${MAX_READING_GRADE}th grade reading level or below
+- Keep line breaks in multi-paragraph text
+
+RESPOND WITH THIS EXACT JSON STRUCTURE, one entry per input path:
+{
+  "fields": {
+    "titles.how_to[1]": "rewritten text"
+  }
+}`;
+}
+
+/** Follow-up turn asking the model to fix its own JSON after validation failed. */
+export function buildRepairMessage(errors: string[]): string {
+  return `Your JSON did not match the required structure. Fix these problems:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Return the complete corrected JSON object with every section, keeping everything that was already valid unchanged.`;
+}
+
+/**
+ * Map step of the chunked analysis: one part of a long transcript in, a
+ * compact JSON digest out. Chapter candidates carry absolute video times so the
+ * final pass never has to guess where a part sits in the whole.
+ */
+export function buildChunkSummaryPrompt(channel: ChannelConfig): string {
+  return `You are summarizing one part of a long video transcript for the "${channel.name}" YouTube channel (${channel.handle}). A later pass will write the titles, description, tags and chapters for the whole video from your summaries alone, so keep everything a copywriter would need.
+
+Target audience: ${channel.audience}
+Topics: ${channel.topics}
+
+The message starts with the part number and the part's position in the video. Lines starting with [M:SS] carry real cue times. If there are none, the position is approximate and you should estimate times inside the part from word count (~150 words/minute).
+
+RESPOND WITH THIS EXACT JSON STRUCTURE:
+{
+  "summary": "One paragraph covering what happens in this part",
+  "key_points": ["The most useful or surprising points, 3-6 items"],
+  "quotes": ["Up to 3 short, quotable lines, copied word for word"],
+  "chapter_candidates": [
+    {"timestamp": "1:02:03", "title": "Short chapter title"}
+  ]
+}
+
+RULES:
+- Chapter candidates mark real topic changes inside this part, at most one every 2 minutes
+- Every timestamp is an absolute time in the whole video, never relative to the part
+- Do not invent anything the transcript does not say`;
+}
+
+/** Reduce step: the part digests stand in for the transcript in the usual analysis. */
+export function buildChunkedUserMessage(
+  summaries: ChunkSummary[],
+  chapters: ChapterCandidate[],
   visualContext?: string,
   videoDuration?: string
 ): string {
-  let message = `Analyze this video transcript and generate viral-optimized metadata:\n\n${transcript}`;
+  const parts = summaries.map(({ chunk, summary, keyPoints, quotes }) => {
+    let part = `PART ${chunk.index + 1} (${chunk.estimated ? "~" : ""}${formatTimestamp(chunk.start)} to ${formatTimestamp(chunk.end)})\n${summary}`;
+    if (keyPoints.length > 0) part += `\nKey points:\n${keyPoints.map((p) => `- ${p}`).join("\n")}`;
+    if (quotes.length > 0) part += `\nQuotes:\n${quotes.map((q) => `- "${q}"`).join("\n")}`;
+    return part;
+  });
+
+  const candidates = chapters
+    .map((chapter) => `[${formatTimestamp(chapter.start)}] ${chapter.title}`)
+    .join("\n");
+
+  let message = `This video is too long to send in one piece, so it was summarized part by part. Analyze it from these summaries and generate viral-optimized metadata for the whole video:\n\n${parts.join("\n\n")}\n\nCHAPTER CANDIDATES (real offsets into the video; build the timeline from these, merging neighbors where needed):\n${candidates}`;
 
   if (visualContext) {
     message += `\n\nVISUAL CONTEXT: ${visualContext}`;
@@ -0,0 +1,87 @@
+/**
+ * Each channel's reference thumbnails: the images style analysis reads to
+ * write a style guide. The files live on the Bunny CDN under
+ * `references/<channel id>/`, and their URLs in `ChannelConfig.sampleThumbnails`,
+ * so the library survives reloads and is shared by everyone on the workspace.
+ *
+ * URLs pasted on the Channels page can point anywhere. Removing one of those
+ * only drops it from the list; removing one of ours also deletes the file.
+ */
+
+import { bunnyPath, deleteFromBunny, uniqueFilename, uploadToBunny } from "./bunny-storage";
+import { MAX_REFERENCES } from "./channel-schema";
+import { ChannelError, loadChannel, setReferences } from "./channel-store";
+import type { ChannelConfig } from "./channels";
+
+export const MAX_REFERENCE_SIZE = 4 * 1024 * 1024; // 4MB
+
+const REFERENCE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+async function requireChannel(id: string): Promise<ChannelConfig> {
+  const channel = await loadChannel(id);
+  if (!channel) throw new ChannelError("not_found", `No channel with the id "${id}".`);
+  return channel;
+}
+
+/**
+ * Uploads images and adds them to the end of the channel's library. Every file
+ * is checked before any is uploaded.
+ */
+export async function addReferences(channelId: string, files: File[]): Promise<ChannelConfig> {
+  const channel = await requireChannel(channelId);
+
+  if (files.length === 0) throw new ChannelError("invalid", "No files provided.");
+  if (channel.sampleThumbnails.length + files.length > MAX_REFERENCES) {
+    const room = MAX_REFERENCES - channel.sampleThumbnails.length;
+    throw new ChannelError(
+      "invalid",
+      `A channel holds ${MAX_REFERENCES} references. ${room > 0 ? `Add at most ${room} more.` : "Remove one first."}`
+    );
+  }
+  for (const file of files) {
+    if (!REFERENCE_TYPES[file.type]) {
+      throw new ChannelError("invalid", `${file.name}: upload a PNG, JPEG or WebP image.`);
+    }
+    if (file.size > MAX_REFERENCE_SIZE) {
+      throw new ChannelError("invalid", `${file.name} exceeds the 4MB limit.`);
+    }
+  }
+
+  const urls: string[] = [];
+  for (const file of files) {
+    const filename = uniqueFilename(`references/${channel.id}`, REFERENCE_TYPES[file.type]);
+    urls.push(await uploadToBunny(filename, await file.arrayBuffer(), file.type));
+  }
+
+  return setReferences(channel.id, [...channel.sampleThumbnails, ...urls]);
+}
+
+/**
+ * Drops a reference from the library, then deletes the file if this library
+ * uploaded it. A failed delete only leaves an orphaned file, so it is logged
+ * rather than reported.
+ */
+export async function removeReference(channelId: string, url: string): Promise<ChannelConfig> {
+  const channel = await requireChannel(channelId);
+  if (!channel.sampleThumbnails.includes(url)) {
+    throw new ChannelError("not_found", "That image is not in this channel's references.");
+  }
+
+  const updated = await setReferences(
+    channel.id,
+    channel.sampleThumbnails.filter((reference) => reference !== url)
+  );
+
+  try {
+    const stored = bunnyPath(url, `references/${channel.id}`);
+    if (stored) await deleteFromBunny(stored);
+  } catch (error) {
+    console.error(`Deleting reference ${url} failed, the file stays on the CDN:`, error);
+  }
+
+  return updated;
+}
@@ -0,0 +1,96 @@
+/**
+ * Conversational refinement. An instruction like "make the warning titles less
+ * clickbaity" comes back from the model as a patch: a list of paths into the
+ * analysis and their new values. The patch is applied and validated as a
+ * whole, so a bad edit is rejected rather than half-applied.
+ */
+
+import type { AnalysisData } from "./analysis";
+import { validateAnalysis } from "./analysis-schema";
+
+/** Paths the model may replace. Anything finer would let it half-edit a list. */
+export const REFINABLE_PATHS = [
+  "titles",
+  "titles.curiosity_gap",
+  "titles.how_to",
+  "titles.negative_warning",
+  "titles.short_punchy",
+  "description",
+  "description.hook",
+  "description.story_summary",
+  "description.key_takeaways",
+  "description.seo_keywords",
+  "description.cta",
+  "description.full_text",
+  "thumbnail_concepts",
+  "tags",
+  "hashtags",
+  "timeline",
+] as const;
+
+export type RefinablePath = (typeof REFINABLE_PATHS)[number];
+
+export interface RefineChange {
+  readonly path: RefinablePath;
+  readonly value: unknown;
+}
+
+export interface RefinePatch {
+  /** One sentence describing what changed, shown in the chat. */
+  readonly summary: string;
+  readonly changes: RefineChange[];
+}
+
+/** One earlier exchange, sent back so follow-ups like "shorter" have context. */
+export interface RefineTurn {
+  readonly instruction: string;
+  readonly summary: string;
+}
+
+function isRefinablePath(value: unknown): value is RefinablePath {
+  return typeof value === "string" && (REFINABLE_PATHS as readonly string[]).includes(value);
+}
+
+/** Reads the model's JSON into a patch, dropping changes to paths it may not touch. */
+export function parseRefinePatch(raw: unknown): RefinePatch {
+  const data = (raw ?? {}) as { summary?: unknown; changes?: unknown };
+  const changes = Array.isArray(data.changes)
+    ? data.changes.filter(
+        (c): c is RefineChange => isRefinablePath(c?.path) && c.value !== undefined
+      )
+    : [];
+
+  return {
+    summary: typeof data.summary === "string" ? data.summary : "Updated the results.",
+    changes,
+  };
+}
+
+export function readPath(data: AnalysisData, path: RefinablePath): unknown {
+  const [section, field] = path.split(".");
+  const value = data[section as keyof AnalysisData];
+  return field ? (value as unknown as Record<string, unknown>)[field] : value;
+}
+
+/**
+ * Applies every change to a copy and validates the result. Returns the
+ * coerced analysis, or the validation errors with nothing applied.
+ */
+export function applyRefinePatch(
+  current: AnalysisData,
+  changes: RefineChange[]
+): { data: AnalysisData | null; errors: string[] } {
+  const draft = structuredClone(current) as unknown as Record<string, Record<string, unknown>>;
+
+  for (const { path, value } of changes) {
+    const [section, field] = path.split(".");
+    if (field) {
+      draft[section] = { ...draft[section], [field]: value };
+    } else {
+      draft[section] = value as Record<string, unknown>;
+    }
+  }
+
+  const result = validateAnalysis(draft);
+  return { data: result.value, errors: result.errors };
+}
@@ -0,0 +1,72 @@
+/**
+ * Single-section regeneration. One deliverable is rewritten with the rest of
+ * the analysis as context, and only that deliverable comes back, so a
+ * description you liked survives a re-roll of weak titles.
+ */
+
+import type { AnalysisData, TitleOptions } from "./analysis";
+import { validateSection } from "./analysis-schema";
+
+export type TitleBucket = keyof TitleOptions;
+
+export type RegenerateTarget =
+  | "titles"
+  | `titles.${TitleBucket}`
+  | "description"
+  | "thumbnail_concepts"
+  | "tags"
+  | "timeline";
+
+export const REGENERATE_LABELS: Record<RegenerateTarget, string> = {
+  titles: "all 10 titles",
+  "titles.curiosity_gap": "the 3 Curiosity Gap titles",
+  "titles.how_to": "the 3 How-To / Benefit titles",
+  "titles.negative_warning": "the 3 Negative / Warning titles",
+  "titles.short_punchy": "the Short / Punchy title",
+  description: "the description",
+  thumbnail_concepts: "the 3 thumbnail concepts",
+  tags: "the tags and hashtags",
+  timeline: "the timeline",
+};
+
+export function isRegenerateTarget(value: unknown): value is RegenerateTarget {
+  return typeof value === "string" && value in REGENERATE_LABELS;
+}
+
+/** Keys the model is asked to return for a target, in the analysis JSON's own shape. */
+export function responseKeys(target: RegenerateTarget): string[] {
+  if (target.startsWith("titles.")) return [target.slice("titles.".length)];
+  if (target === "tags") return ["tags", "hashtags"];
+  return [target];
+}
+
+/**
+ * Validates the model's answer and folds it into the previous analysis.
+ * Returns only the top-level sections that changed; a title bucket comes back
+ * as the whole `titles` object with the other buckets untouched.
+ */
+export function mergeRegenerated(
+  previous: AnalysisData,
+  target: RegenerateTarget,
+  raw: Record<string, unknown>
+): { patch: Partial<AnalysisData> | null; errors: string[] } {
+  if (target.startsWith("titles.")) {
+    const bucket = target.slice("titles.".length) as TitleBucket;
+    const result = validateSection("titles", { ...previous.titles, [bucket]: raw[bucket] });
+    return { patch: result.value && { titles: result.value }, errors: result.errors };
+  }
+
+  if (target === "tags") {
+    const tags = validateSection("tags", raw.tags);
+    const hashtags = validateSection("hashtags", raw.hashtags);
+    const errors = [...tags.errors, ...hashtags.errors];
+    return {
+      patch: tags.value && hashtags.value ? { tags: tags.value, hashtags: hashtags.value } : null,
+      errors,
+    };
+  }
+
+  const key = target as Exclude<RegenerateTarget, "tags" | `titles.${TitleBucket}`>;
+  const result = validateSection(key, raw[key]);
+  return { patch: result.value && { [key]: result.value }, errors: result.errors };
+}
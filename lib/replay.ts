@@ -0,0 +1,143 @@
+/**
+ * Record/replay for outbound HTTP: the model calls, the Supabase `media_jobs`
+ * queue and the Bunny uploads.
+ *
+ *   REPLAY_MODE=record   make real calls and save every response
+ *   REPLAY_MODE=replay   serve saved responses and never touch the network
+ *   REPLAY_DIR           where recordings live (default: fixtures/replay)
+ *
+ * Record one analyze → generate-thumbnail run with network access, then the
+ * same run works on a machine with none. Bodies are stored base64 and replayed
+ * byte for byte, including the model's SSE stream.
+ *
+ * Requests are matched on method, URL and body, unless the scope passes its
+ * own key: Bunny, the CDN and Supabase leave out the parts that change from
+ * run to run (random filenames, timestamps). A request made several times
+ * (polling a job until it is done) is recorded once per call and replayed in
+ * the same order; once the recording runs out, the last response repeats.
+ * Request headers are never written, so keys stay out of the recordings.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, writeFile } from "fs/promises";
+import path from "path";
+
+type ReplayMode = "record" | "replay" | "off";
+
+interface Recording {
+  readonly request: { method: string; url: string };
+  readonly response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/** How a scope identifies "the same request". Defaults to method, URL and body. */
+export type ReplayKey = (method: string, url: URL, body: string) => string;
+
+/** Thrown in replay mode when a request was never recorded. */
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayError";
+  }
+}
+
+// fetch decodes the body, so these would describe bytes we no longer have
+const DROPPED_HEADERS = new Set(["content-encoding", "content-length", "transfer-encoding"]);
+
+const callCounts = new Map<string, number>();
+
+export function replayMode(): ReplayMode {
+  const mode = process.env.REPLAY_MODE?.trim();
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+function replayDir(scope: string): string {
+  return path.join(process.cwd(), process.env.REPLAY_DIR?.trim() || "fixtures/replay", scope);
+}
+
+function bodyText(body: RequestInit["body"]): string {
+  if (body === undefined || body === null) return "";
+  if (typeof body === "string") return body;
+  if (body instanceof Uint8Array) return Buffer.from(body).toString("base64");
+  if (body instanceof ArrayBuffer) return Buffer.from(body).toString("base64");
+  return String(body);
+}
+
+const defaultKey: ReplayKey = (method, url, body) => `${method} ${url.href} ${body}`;
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+async function record(file: string, url: URL, method: string, response: Response): Promise<Response> {
+  const bytes = Buffer.from(await response.arrayBuffer());
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!DROPPED_HEADERS.has(name)) headers[name] = value;
+  });
+
+  const recording: Recording = {
+    request: { method, url: `${url.origin}${url.pathname}` },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: bytes.toString("base64"),
+    },
+  };
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(recording, null, 2));
+
+  return new Response(bytes, { status: response.status, statusText: response.statusText, headers });
+}
+
+/** The nth recording for a key, or the last one when the run made more calls than were recorded. */
+async function replay(dir: string, key: string, n: number, url: URL, method: string): Promise<Response> {
+  const recorded = await readdir(dir).catch(() => [] as string[]);
+  const calls = recorded
+    .filter((name) => name.startsWith(`${key}-`))
+    .map((name) => Number(name.slice(key.length + 1, -".json".length)))
+    .filter(Number.isInteger)
+    .sort((a, b) => a - b);
+
+  if (calls.length === 0) {
+    throw new ReplayError(`No recording for ${method} ${url.origin}${url.pathname} (${key}). Record it with REPLAY_MODE=record.`);
+  }
+
+  const call = calls.includes(n) ? n : calls[calls.length - 1];
+  const recording: Recording = JSON.parse(await readFile(path.join(dir, `${key}-${call}.json`), "utf8"));
+  const { status, statusText, headers, body } = recording.response;
+  // Null-body statuses must not be given a body, even an empty one
+  const bytes = status === 204 || status === 304 ? null : Buffer.from(body, "base64");
+  return new Response(bytes, { status, statusText, headers });
+}
+
+/**
+ * A `fetch` that records or replays according to REPLAY_MODE, and is plain
+ * `fetch` otherwise. `scope` names the recordings' subdirectory.
+ */
+export function createReplayFetch(scope: string, keyOf: ReplayKey = defaultKey): typeof fetch {
+  return async (input, init) => {
+    const mode = replayMode();
+    if (mode === "off") return fetch(input, init);
+
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    // data: URLs never leave the machine
+    if (url.protocol !== "http:" && url.protocol !== "https:") return fetch(input, init);
+
+    const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+    const key = hash(keyOf(method, url, bodyText(init?.body)));
+    const countKey = `${scope}/${key}`;
+    const n = callCounts.get(countKey) ?? 0;
+    callCounts.set(countKey, n + 1);
+
+    const dir = replayDir(scope);
+    if (mode === "replay") return replay(dir, key, n, url, method);
+
+    return record(path.join(dir, `${key}-${n}.json`), url, method, await fetch(input, init));
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Connection details for the Supabase REST API (PostgREST), shared by the
+ * stores that keep app data in the `hmnewsletter` project. The service-role
+ * key never leaves the server.
+ */
+
+import { createReplayFetch } from "./replay";
+
+export interface SupabaseTable {
+  readonly url: string;
+  readonly headers: Record<string, string>;
+}
+
+// Dates in a filter, e.g. usage since the first of this month
+const ISO_DATE = /\d{4}-\d{2}-\d{2}(T[\d:.]+Z)?/g;
+
+/**
+ * Supabase REST calls, recordable like the `media_jobs` queue. Write bodies
+ * carry timestamps and usage reads filter on this month, so recordings are
+ * matched on method and URL with dates masked, never on the body.
+ */
+export const supabaseFetch = createReplayFetch(
+  "supabase",
+  (method, url) => `${method} ${url.pathname}${url.search.replace(ISO_DATE, "*")}`
+);
+
+/** REST endpoint and auth headers for one table, or null when Supabase is not configured. */
+export function supabaseTable(table: string): SupabaseTable | null {
+  const url = process.env.SUPABASE_URL?.trim();
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim();
+  if (!url || !serviceKey) return null;
+
+  return {
+    url: `${url.replace(/\/+$/, "")}/rest/v1/${table}`,
+    headers: {
+      apikey: serviceKey,
+      Authorization: `Bearer ${serviceKey}`,
+      "Content-Type": "application/json",
+    },
+  };
+}
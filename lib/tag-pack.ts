@@ -0,0 +1,136 @@
+/**
+ * Fits the tags into YouTube's 500-character tag budget.
+ *
+ * Studio counts the budget its own way: every tag's characters, one for each
+ * comma between tags, and two more for any tag with a space in it, because
+ * Studio stores those wrapped in quotes. It also rejects "<" and ">", and a
+ * tag can only be 100 characters on its own. The model knows none of this,
+ * so its tags used to be joined as-is and trimmed by hand in Studio.
+ *
+ * The packer cleans and dedupes the tags, ranks them, then fills the budget in
+ * rank order, skipping any tag that no longer fits so a shorter one behind it
+ * can take the space. Transcript keyphrases the model did not use are packed
+ * after its own tags, as filler for whatever room is left.
+ */
+
+import { tagSupport } from "./keywords";
+
+export const TAG_BUDGET = 500;
+export const MAX_TAG_LENGTH = 100;
+
+export type TagDropReason = "invalid" | "duplicate" | "too_long" | "no_room";
+
+export interface PackedTag {
+  readonly tag: string;
+  /** Characters the tag takes from the budget, comma not included. */
+  readonly cost: number;
+  /** False when the transcript never says the tag's words. */
+  readonly supported: boolean;
+  /** True for a transcript keyphrase added to fill the budget. */
+  readonly fromTranscript: boolean;
+}
+
+export interface TagPack {
+  /** The packed tags, most relevant first. */
+  readonly tags: PackedTag[];
+  readonly dropped: { tag: string; reason: TagDropReason }[];
+  readonly used: number;
+  readonly remaining: number;
+  /** Exactly what to paste into Studio's tag field. */
+  readonly text: string;
+}
+
+export interface TagPackOptions {
+  /** Ranked transcript keyphrases, best first. */
+  readonly keyphrases?: string[];
+  /** Stemmed transcript words, from `transcriptTermSet`. */
+  readonly transcriptTerms?: ReadonlySet<string>;
+  readonly budget?: number;
+}
+
+export const TAG_DROP_LABELS: Record<TagDropReason, string> = {
+  invalid: "nothing left after cleanup",
+  duplicate: "duplicate",
+  too_long: `over ${MAX_TAG_LENGTH} characters`,
+  no_room: "no room left",
+};
+
+/** Strips what Studio rejects or splits on, and the quotes and # it adds itself. */
+export function normalizeTag(tag: string): string {
+  return tag
+    .replace(/[<>"]/g, "")
+    .replace(/,/g, " ")
+    .replace(/^#+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Budget cost of one tag as Studio counts it. */
+export function tagCost(tag: string): number {
+  return tag.length + (tag.includes(" ") ? 2 : 0);
+}
+
+export function packTags(tags: string[], options: TagPackOptions = {}): TagPack {
+  const { keyphrases = [], transcriptTerms, budget = TAG_BUDGET } = options;
+  const dropped: TagPack["dropped"] = [];
+  const seen = new Set<string>();
+  const keyphraseRank = new Map(keyphrases.map((phrase, i) => [phrase.toLowerCase(), i]));
+
+  const candidates: PackedTag[] = [];
+  const consider = (raw: string, fromTranscript: boolean) => {
+    const tag = normalizeTag(raw);
+    const key = tag.toLowerCase();
+    if (!tag) {
+      if (!fromTranscript) dropped.push({ tag: raw, reason: "invalid" });
+      return;
+    }
+    if (seen.has(key)) {
+      if (!fromTranscript) dropped.push({ tag: raw, reason: "duplicate" });
+      return;
+    }
+    seen.add(key);
+    if (tag.length > MAX_TAG_LENGTH) {
+      dropped.push({ tag, reason: "too_long" });
+      return;
+    }
+    candidates.push({
+      tag,
+      cost: tagCost(tag),
+      supported: transcriptTerms ? fromTranscript || tagSupport(tag, transcriptTerms) : true,
+      fromTranscript,
+    });
+  };
+
+  tags.forEach((tag) => consider(tag, false));
+  keyphrases.forEach((phrase) => consider(phrase, true));
+
+  // The model's tags that the transcript backs up, best keyphrase matches
+  // first; then unsupported tags; then keyphrases as filler. Ties keep the
+  // model's own order, because the sort is stable.
+  const rank = (candidate: PackedTag) => (candidate.fromTranscript ? 2 : candidate.supported ? 0 : 1);
+  const keyphraseOrder = (candidate: PackedTag) =>
+    keyphraseRank.get(candidate.tag.toLowerCase()) ?? keyphrases.length;
+  const ranked = [...candidates].sort(
+    (a, b) => rank(a) - rank(b) || keyphraseOrder(a) - keyphraseOrder(b)
+  );
+
+  const packed: PackedTag[] = [];
+  let used = 0;
+  for (const candidate of ranked) {
+    const cost = candidate.cost + (packed.length > 0 ? 1 : 0);
+    if (used + cost > budget) {
+      if (!candidate.fromTranscript) dropped.push({ tag: candidate.tag, reason: "no_room" });
+      continue;
+    }
+    packed.push(candidate);
+    used += cost;
+  }
+
+  return {
+    tags: packed,
+    dropped,
+    used,
+    remaining: budget - used,
+    text: packed.map((p) => p.tag).join(","),
+  };
+}
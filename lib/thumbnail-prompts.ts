@@ -1,11 +1,12 @@
 import { ChannelConfig } from "./channels";
+import { renderPromptTemplate } from "./prompt-template";
 
 /**
- * Builds a system prompt for GPT-4o vision to analyze sample thumbnails
- * and produce a reusable style guide description.
+ * Built-in wording of the style analysis prompt. It uses none of its
+ * variables; `channel_name` is there for edited versions and is empty when
+ * the request names no channel.
  */
-export function buildStyleAnalysisPrompt(): string {
-  return `You are an expert YouTube thumbnail analyst. Analyze these sample thumbnails and describe the visual style in detail.
+export const STYLE_ANALYSIS_TEMPLATE = `You are an expert YouTube thumbnail analyst. Analyze these sample thumbnails and describe the visual style in detail.
 
 Focus on:
 1. **Color palette** — dominant colors, accent colors, saturation level, warm vs cool tones
@@ -16,63 +17,91 @@ Focus on:
 6. **Background style** — solid color, gradient, blurred photo, graphic pattern, clean/busy
 
 Output a single paragraph (150-200 words) that a designer could use to replicate this exact style. Be specific about colors (use hex codes when possible), font characteristics, and spatial relationships. Do NOT list the images separately — synthesize the common style across all samples.`;
-}
 
 /**
- * Builds a detailed FLUX prompt from a thumbnail concept, channel branding,
- * style guide, and viral best practices.
- *
- * FLUX responds to dense visual description rather than the bulleted
- * instruction lists DALL-E tolerated, so this reads as one scene brief.
+ * Builds a system prompt for GPT-4o vision to analyze sample thumbnails
+ * and produce a reusable style guide description.
  */
-export function buildFluxPrompt(
-  concept: string,
-  channel: ChannelConfig,
-  styleGuide: string | null,
-  includeHeadshot: boolean
+export function buildStyleAnalysisPrompt(
+  channel?: ChannelConfig,
+  template: string = STYLE_ANALYSIS_TEMPLATE
 ): string {
-  const channelStyle = `${channel.thumbnailColors}. ${channel.thumbnailVibe}`;
+  return renderPromptTemplate(template, { channel_name: channel?.name ?? "" });
+}
 
-  let prompt = `A YouTube thumbnail, 16:9 landscape, 1280x720.
+/**
+ * Built-in wording of the base FLUX prompt. `style_reference` and
+ * `headshot_space` render to whole sections, or to nothing when unused.
+ */
+export const FLUX_PROMPT_TEMPLATE = `A YouTube thumbnail, 16:9 landscape, 1280x720.
 
 VISUAL CONCEPT:
-${concept}
+{{concept}}
 
 CHANNEL BRANDING:
-${channel.name} channel. Color palette: ${channelStyle}
+{{channel_name}} channel. Color palette: {{channel_style}}
 
 NO TEXT:
-The image contains no text of any kind. No words, no letters, no numbers, no signage, no captions, no logos, no watermarks. The headline is added afterwards, so leave the upper-left third of the frame visually calm and uncluttered: an area of sky, wall, shadow or shallow-focus background that a large block of type can sit on top of without covering the subject.`;
+The image contains no text of any kind. No words, no letters, no numbers, no signage, no captions, no logos, no watermarks. The headline is added afterwards, so leave the upper-left third of the frame visually calm and uncluttered: an area of sky, wall, shadow or shallow-focus background that a large block of type can sit on top of without covering the subject.{{style_reference}}{{headshot_space}}
 
-  if (styleGuide) {
-    prompt += `
+RENDERING:
+Highly saturated complementary colors, dramatic rim lighting, one clear focal point, a simple uncluttered background, sharp focus, no blur or noise, professional editorial photography quality rather than generic stock. The mood is {{mood}}. The photograph fills the entire 16:9 frame edge to edge with no border, no frame, no letterbox bars and no flat margin around it. No YouTube interface, no play button, no video player chrome, no watermark.`;
 
-STYLE REFERENCE:
-Match this visual style: ${styleGuide}`;
-  }
+/** Values for the `{{variables}}` in the FLUX prompt. */
+export function fluxPromptVariables(
+  concept: string,
+  channel: ChannelConfig,
+  styleGuide: string | null,
+  includeHeadshot: boolean
+): Record<string, string> {
+  return {
+    concept,
+    channel_name: channel.name,
+    channel_style: `${channel.thumbnailColors}. ${channel.thumbnailVibe}`,
+    style_reference: styleGuide
+      ? `
 
-  if (includeHeadshot) {
-    prompt += `
+STYLE REFERENCE:
+Match this visual style: ${styleGuide}`
+      : "",
+    headshot_space: includeHeadshot
+      ? `
 
 PERSON PLACEMENT:
-Leave a clear space on the left or right third of the image for a person's head and shoulders to be composited in later. The space should be roughly 30-35% of the image width. Design the background and other elements to work around this space.`;
-  }
-
-  prompt += `
-
-RENDERING:
-Highly saturated complementary colors, dramatic rim lighting, one clear focal point, a simple uncluttered background, sharp focus, no blur or noise, professional editorial photography quality rather than generic stock. The mood is ${concept.includes("warning") || concept.includes("mistake") ? "urgent and alarming" : "curious and energetic"}. The photograph fills the entire 16:9 frame edge to edge with no border, no frame, no letterbox bars and no flat margin around it. No YouTube interface, no play button, no video player chrome, no watermark.`;
+Leave a clear space on the left or right third of the image for a person's head and shoulders to be composited in later. The space should be roughly 30-35% of the image width. Design the background and other elements to work around this space.`
+      : "",
+    mood:
+      concept.includes("warning") || concept.includes("mistake")
+        ? "urgent and alarming"
+        : "curious and energetic",
+  };
+}
 
-  return prompt;
+/**
+ * Builds a detailed FLUX prompt from a thumbnail concept, channel branding,
+ * style guide, and viral best practices.
+ *
+ * FLUX responds to dense visual description rather than the bulleted
+ * instruction lists DALL-E tolerated, so this reads as one scene brief.
+ */
+export function buildFluxPrompt(
+  concept: string,
+  channel: ChannelConfig,
+  styleGuide: string | null,
+  includeHeadshot: boolean,
+  template: string = FLUX_PROMPT_TEMPLATE
+): string {
+  return renderPromptTemplate(
+    template,
+    fluxPromptVariables(concept, channel, styleGuide, includeHeadshot)
+  );
 }
 
 /**
- * Builds a GPT-4o prompt to craft an optimized FLUX prompt from a concept.
- * This two-step approach (GPT-4o → FLUX) produces better results than
- * sending the raw concept straight to the image model.
+ * Built-in wording of the prompt crafter's system prompt. The channel reaches
+ * the crafter through the FLUX prompt, so this uses none of its variables.
  */
-export function buildPromptCrafterSystem(): string {
-  return `You are an expert at writing FLUX image generation prompts for YouTube thumbnails.
+export const PROMPT_CRAFTER_TEMPLATE = `You are an expert at writing FLUX image generation prompts for YouTube thumbnails.
 
 Your job: Take a thumbnail concept description and transform it into an optimized FLUX prompt that will produce a viral, click-worthy YouTube thumbnail BACKGROUND. The headline text is composited on afterwards by the application, so the generated image must contain no text at all.
 
@@ -100,4 +129,20 @@ PROMPT WRITING RULES (FLUX-specific):
 - End with "sharp focus, high contrast, professional YouTube thumbnail quality".
 
 Return ONLY the FLUX prompt text. No explanation, no JSON, just the prompt.`;
+
+/**
+ * Builds a GPT-4o prompt to craft an optimized FLUX prompt from a concept.
+ * This two-step approach (GPT-4o → FLUX) produces better results than
+ * sending the raw concept straight to the image model.
+ */
+export function buildPromptCrafterSystem(
+  channel: ChannelConfig,
+  template: string = PROMPT_CRAFTER_TEMPLATE
+): string {
+  return renderPromptTemplate(template, {
+    channel_name: channel.name,
+    thumbnail_colors: channel.thumbnailColors,
+    thumbnail_vibe: channel.thumbnailVibe,
+    thumbnail_style: channel.thumbnailStyle,
+  });
 }
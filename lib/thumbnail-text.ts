@@ -4,16 +4,17 @@
  * FLUX renders two words cleanly and garbles three, so the image model is asked
  * for a text-free background and the headline is composited here instead. The
  * glyphs are converted to SVG path data with opentype.js, which means nothing
- * at render time depends on a font being installed on the host.
+ * at render time depends on a font being installed on the host. Each channel
+ * picks its face from the font registry (`font-registry.ts`).
  */
 
 import { readFileSync } from "fs";
 import path from "path";
 import { parse as parseFont, type Font } from "opentype.js";
 import sharp from "sharp";
+import { cdnFetch } from "./bunny-storage";
 import { ChannelConfig } from "./channels";
-
-const FONT_FILE = path.join(process.cwd(), "assets", "Anton-Regular.ttf");
+import { BUILT_IN_FONTS, findFont, type FontAsset } from "./font-registry";
 
 const MARGIN = 52;
 const MAX_LINES = 3;
@@ -36,16 +37,42 @@ interface Layout {
   readonly fontSize: number;
 }
 
-let cachedFont: Font | null = null;
+/** Parsed faces by file. An upload gets a new URL, so a replaced font is never served stale. */
+const fontCache = new Map<string, Promise<Font>>();
+
+async function readFontFile(asset: FontAsset): Promise<ArrayBuffer> {
+  if (asset.builtIn) {
+    const file = readFileSync(path.join(process.cwd(), asset.file));
+    // opentype wants a standalone ArrayBuffer, not the pooled Node Buffer slab.
+    return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+  }
+
+  const response = await cdnFetch(asset.file);
+  if (!response.ok) throw new Error(`Font download failed: ${response.status}`);
+  return response.arrayBuffer();
+}
+
+function loadFont(asset: FontAsset): Promise<Font> {
+  const cached = fontCache.get(asset.file);
+  if (cached) return cached;
 
-function loadFont(): Font {
-  if (cachedFont) return cachedFont;
+  const font = readFontFile(asset).then((bytes) => parseFont(bytes));
+  // A failed download is retried on the next thumbnail rather than cached
+  font.catch(() => fontCache.delete(asset.file));
+  fontCache.set(asset.file, font);
+  return font;
+}
 
-  const file = readFileSync(FONT_FILE);
-  // opentype wants a standalone ArrayBuffer, not the pooled Node Buffer slab.
-  const bytes = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
-  cachedFont = parseFont(bytes);
-  return cachedFont;
+/** The channel's face, or the default one when it cannot be loaded. */
+async function channelFont(channel: ChannelConfig): Promise<Font> {
+  const asset = await findFont(channel.overlayFont);
+  try {
+    return await loadFont(asset);
+  } catch (error) {
+    if (asset.builtIn) throw error;
+    console.error(`Loading overlay font ${asset.id} failed, using ${BUILT_IN_FONTS[0].name}:`, error);
+    return loadFont(BUILT_IN_FONTS[0]);
+  }
 }
 
 /** Uppercase, collapse whitespace and drop anything the display face cannot draw. */
@@ -156,7 +183,7 @@ export async function compositeTextOverlay(
   const text = normalize(rawText);
   if (!text) return baseImage;
 
-  const font = loadFont();
+  const font = await channelFont(channel);
   const maxWidth =
     options.width *
       (options.reserveHeadshotSpace ? TEXT_WIDTH_WITH_HEADSHOT : TEXT_WIDTH_ALONE) -
@@ -8,6 +8,8 @@
  * ever has to reach into the tailnet.
  */
 
+import { createReplayFetch } from "./replay";
+
 export type TimImageModel = "flux" | "juggernaut";
 
 export interface TimImageRequest {
@@ -37,6 +39,8 @@ interface MediaJobRow {
 const POLL_INTERVAL_MS = 1500;
 const DEFAULT_TIMEOUT_MS = 100_000;
 
+const queueFetch = createReplayFetch("media-jobs");
+
 /** Thrown for every failure mode so callers can map it to one HTTP response. */
 export class TimImageError extends Error {
   readonly reason: "not_configured" | "enqueue_failed" | "generation_failed" | "timeout";
@@ -80,7 +84,7 @@ async function enqueue(
   request: TimImageRequest,
   requestedBy: string
 ): Promise<string> {
-  const response = await fetch(config.restUrl, {
+  const response = await queueFetch(config.restUrl, {
     method: "POST",
     headers: { ...authHeaders(config.serviceKey), Prefer: "return=representation" },
     body: JSON.stringify({
@@ -116,7 +120,7 @@ async function enqueue(
 
 async function readJob(config: SupabaseConfig, jobId: string): Promise<MediaJobRow | null> {
   const url = `${config.restUrl}?id=eq.${encodeURIComponent(jobId)}&select=id,status,result_url,error`;
-  const response = await fetch(url, { headers: authHeaders(config.serviceKey) });
+  const response = await queueFetch(url, { headers: authHeaders(config.serviceKey) });
 
   if (!response.ok) return null; // transient read failure — keep polling
 
@@ -0,0 +1,272 @@
+/**
+ * Deterministic click-through heuristics for title options. No model call, so
+ * the same title always gets the same score and the whole thing runs offline.
+ *
+ * The weights are rules of thumb from what tends to get clicked on YouTube, not
+ * a trained model. The breakdown matters more than the total: it says why one
+ * title beats another.
+ */
+
+import type { TitleOptions } from "./analysis";
+import type { ChannelConfig } from "./channels";
+
+/** Roughly where YouTube cuts a title off in the mobile feed and on desktop. */
+export const MOBILE_VISIBLE_CHARS = 50;
+export const DESKTOP_VISIBLE_CHARS = 70;
+
+const IDEAL_LENGTH = { min: 40, max: 60 };
+
+const NUMBER_WORDS = /\b(?:one|two|three|four|five|six|seven|eight|nine|ten|dozen|hundred|thousand|million)\b/i;
+
+const POWER_WORDS = [
+  "secret",
+  "truth",
+  "proven",
+  "exactly",
+  "simple",
+  "easy",
+  "fast",
+  "free",
+  "actually",
+  "real",
+  "best",
+  "finally",
+  "everything",
+  "only",
+  "ultimate",
+  "hidden",
+  "instantly",
+];
+
+const NEGATIVE_WORDS = [
+  "mistake",
+  "never",
+  "stop",
+  "worst",
+  "wrong",
+  "avoid",
+  "warning",
+  "fail",
+  "lose",
+  "lost",
+  "don't",
+  "regret",
+  "ruin",
+  "broke",
+  "problem",
+  "scam",
+  "dangerous",
+];
+
+/** Open loops: the title promises an answer and holds it back. */
+const CURIOSITY_PATTERNS: RegExp[] = [
+  /\.\.\.|…/,
+  /\?$/,
+  /\bwhat happen(?:ed|s)\b/i,
+  /\bhere'?s (?:why|what|how)\b/i,
+  /\b(?:nobody|no one) (?:tells|told|talks)\b/i,
+  /\bthe (?:truth|real reason|secret)\b/i,
+  /\b(?:this|these) (?:one|\w+) (?:thing|trick|tool|mistake)/i,
+  /\b(?:before|after|until) (?:you|i|they|she|he)\b/i,
+  /\b(?:changed|ruined|saved) (?:everything|my)\b/i,
+];
+
+export type ScoreFactorKey =
+  | "length"
+  | "numbers"
+  | "power_words"
+  | "negativity"
+  | "curiosity"
+  | "keywords"
+  | "patterns";
+
+export interface ScoreFactor {
+  readonly key: ScoreFactorKey;
+  readonly label: string;
+  readonly points: number;
+  readonly max: number;
+  readonly note: string;
+}
+
+export interface TitleScore {
+  readonly title: string;
+  /** 0-100, the sum of every factor's points. */
+  readonly total: number;
+  readonly factors: ScoreFactor[];
+  /** What each screen shows when the title is cut off, or null when it fits. */
+  readonly truncated: { mobile: string | null; desktop: string | null };
+}
+
+export interface ScoredTitle extends TitleScore {
+  readonly bucket: keyof TitleOptions;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+/** Whole-token match, allowing a plural: "mistake" matches "mistakes", "art" never matches "start". */
+function sameWord(token: string, word: string): boolean {
+  return token === word || token === `${word}s` || token === `${word}es`;
+}
+
+function matchedWords(title: string, list: string[]): string[] {
+  const titleWords = words(title);
+  return list.filter((word) => titleWords.some((w) => sameWord(w, word)));
+}
+
+function truncate(title: string, limit: number): string | null {
+  return title.length > limit ? `${title.slice(0, limit).trimEnd()}...` : null;
+}
+
+function lengthFactor(title: string): ScoreFactor {
+  const length = title.length;
+  const { min, max } = IDEAL_LENGTH;
+  let points = 20;
+  if (length < min) points = Math.max(0, 20 - Math.ceil((min - length) / 2));
+  else if (length > DESKTOP_VISIBLE_CHARS) points = Math.max(0, 10 - Math.ceil((length - DESKTOP_VISIBLE_CHARS) / 3));
+  else if (length > max) points = 15;
+
+  const note =
+    length > DESKTOP_VISIBLE_CHARS
+      ? `${length} characters, cut off on desktop and mobile`
+      : length > MOBILE_VISIBLE_CHARS
+        ? `${length} characters, cut off on mobile`
+        : `${length} characters, fits everywhere`;
+
+  return { key: "length", label: "Length", points, max: 20, note };
+}
+
+function numbersFactor(title: string): ScoreFactor {
+  const digits = title.match(/\$?\d[\d,.]*%?/);
+  const word = title.match(NUMBER_WORDS);
+  const found = digits?.[0] ?? word?.[0];
+  return {
+    key: "numbers",
+    label: "Specific number",
+    points: digits ? 10 : word ? 6 : 0,
+    max: 10,
+    note: found ? `Uses "${found}"` : "No number",
+  };
+}
+
+function powerWordsFactor(title: string): ScoreFactor {
+  const found = matchedWords(title, POWER_WORDS);
+  return {
+    key: "power_words",
+    label: "Power words",
+    points: Math.min(15, found.length * 8),
+    max: 15,
+    note: found.length > 0 ? found.join(", ") : "None",
+  };
+}
+
+function negativityFactor(title: string): ScoreFactor {
+  const found = matchedWords(title, NEGATIVE_WORDS);
+  return {
+    key: "negativity",
+    label: "Negativity",
+    points: found.length > 0 ? 10 : 0,
+    max: 10,
+    note: found.length > 0 ? found.join(", ") : "None",
+  };
+}
+
+function curiosityFactor(title: string): ScoreFactor {
+  const hits = CURIOSITY_PATTERNS.filter((pattern) => pattern.test(title)).length;
+  return {
+    key: "curiosity",
+    label: "Curiosity gap",
+    points: Math.min(15, hits * 8),
+    max: 15,
+    note: hits > 0 ? `${hits} open-loop cue${hits === 1 ? "" : "s"}` : "Gives the answer away",
+  };
+}
+
+/** A keyword counts when all of its words appear; one in the first 40 characters counts extra. */
+function keywordsFactor(title: string, keywords: string[]): ScoreFactor {
+  if (keywords.length === 0) {
+    return { key: "keywords", label: "SEO keywords", points: 0, max: 20, note: "No keywords to check" };
+  }
+
+  const titleWords = words(title);
+  const found = keywords.filter((keyword) =>
+    words(keyword).every((word) => titleWords.some((w) => sameWord(w, word)))
+  );
+  const frontWords = words(title.slice(0, 40));
+  const frontLoaded = found.some((keyword) => {
+    const first = words(keyword)[0];
+    return first !== undefined && frontWords.some((w) => sameWord(w, first));
+  });
+
+  return {
+    key: "keywords",
+    label: "SEO keywords",
+    points: Math.min(20, found.length * 10 + (frontLoaded ? 5 : 0)),
+    max: 20,
+    note: found.length > 0 ? found.join(", ") : "None of the description keywords",
+  };
+}
+
+/** Placeholders like "[Number]" and a bare "X" are the variable part of a pattern. */
+function patternWords(pattern: string): string[] {
+  return words(pattern.replace(/\[[^\]]*\]/g, " ")).filter((w) => w !== "x");
+}
+
+function patternsFactor(title: string, patterns: string[]): ScoreFactor {
+  const titleWords = new Set(words(title));
+  let best = { share: 0, pattern: "" };
+
+  for (const pattern of patterns) {
+    const fixed = patternWords(pattern);
+    if (fixed.length === 0) continue;
+    const share = fixed.filter((w) => titleWords.has(w)).length / fixed.length;
+    if (share > best.share) best = { share, pattern };
+  }
+
+  return {
+    key: "patterns",
+    label: "Channel pattern",
+    points: Math.round(best.share * 10),
+    max: 10,
+    note: best.pattern ? `Closest: "${best.pattern}"` : "Matches none of the channel's patterns",
+  };
+}
+
+export function scoreTitle(title: string, keywords: string[], channel: ChannelConfig): TitleScore {
+  const factors = [
+    lengthFactor(title),
+    numbersFactor(title),
+    powerWordsFactor(title),
+    negativityFactor(title),
+    curiosityFactor(title),
+    keywordsFactor(title, keywords),
+    patternsFactor(title, channel.titlePatterns),
+  ];
+
+  return {
+    title,
+    total: factors.reduce((sum, factor) => sum + factor.points, 0),
+    factors,
+    truncated: {
+      mobile: truncate(title, MOBILE_VISIBLE_CHARS),
+      desktop: truncate(title, DESKTOP_VISIBLE_CHARS),
+    },
+  };
+}
+
+/** All ten titles, each tagged with its bucket, in the order they were written. */
+export function scoreTitles(
+  titles: TitleOptions,
+  keywords: string[],
+  channel: ChannelConfig
+): ScoredTitle[] {
+  const entries: [keyof TitleOptions, string][] = [
+    ...titles.curiosity_gap.map((t) => ["curiosity_gap", t] as [keyof TitleOptions, string]),
+    ...titles.how_to.map((t) => ["how_to", t] as [keyof TitleOptions, string]),
+    ...titles.negative_warning.map((t) => ["negative_warning", t] as [keyof TitleOptions, string]),
+    ["short_punchy", titles.short_punchy],
+  ];
+
+  return entries.map(([bucket, title]) => ({ bucket, ...scoreTitle(title, keywords, channel) }));
+}
@@ -0,0 +1,244 @@
+/**
+ * Cleanup pass between parsing and the prompt. Auto-captions spend a lot of
+ * tokens on "[Music]", "um", repeated speaker labels and the overlap between
+ * rolling caption lines, none of which helps the model write metadata.
+ *
+ * Every rule works cue by cue and keeps cue start times, so chapters still
+ * land on real offsets. A cue that ends up empty is dropped and the cue before
+ * it takes over its end time.
+ */
+
+import { renderTranscript, type ParsedTranscript, type TranscriptSegment } from "./transcript";
+
+export type CleanupRule = "cue_tags" | "fillers" | "speakers" | "rolling_overlap" | "merge_short";
+
+export type CleanupOptions = Record<CleanupRule, boolean>;
+
+// Cues shorter than this join the next one, until the group spans this long,
+// so chapters keep some resolution
+const MIN_CUE_WORDS = 6;
+const MAX_MERGED_SECONDS = 15;
+// Shorter overlaps are likelier to be real repetition than rolling captions
+const MIN_OVERLAP_WORDS = 2;
+
+export const CLEANUP_RULES: Record<CleanupRule, { label: string; description: string }> = {
+  cue_tags: {
+    label: "Strip cue tags",
+    description: "[Music], [Applause], (laughs), ♪",
+  },
+  fillers: {
+    label: "Remove fillers",
+    description: "um, uh, erm, hmm, mhm",
+  },
+  speakers: {
+    label: "Normalize speakers",
+    description: "SPEAKER 1:, >>, JOHN: become one label per speaker change",
+  },
+  rolling_overlap: {
+    label: "Dedupe rolling captions",
+    description: "Words repeated from the cue before",
+  },
+  merge_short: {
+    label: "Merge short cues",
+    description: `Cues under ${MIN_CUE_WORDS} words join the next one`,
+  },
+};
+
+export const DEFAULT_CLEANUP: CleanupOptions = {
+  cue_tags: true,
+  fillers: true,
+  speakers: true,
+  rolling_overlap: true,
+  merge_short: true,
+};
+
+export interface CleanupResult {
+  readonly transcript: ParsedTranscript;
+  /** Characters of prompt text before and after cleanup. */
+  readonly before: number;
+  readonly after: number;
+}
+
+// Known sound cues only, in brackets or parentheses and with up to two words
+// before them ("[upbeat music]"), so "[sic]" or a "[SPEAKER 1]" label stays
+const CUE = "(?:[a-z]+ ){0,2}(?:music|applause|laughs?|laughter|inaudible|crosstalk|silence|cheering|blank_audio)";
+const CUE_TAG = new RegExp(`\\[${CUE}\\]|\\(${CUE}\\)|♪+`, "gi");
+const FILLER = /(^|[\s,.!?])(?:u+m+|u+h+|erm+|hm+|mhm)(?=$|[\s,.!?])[,.]?/gi;
+const NUMBERED_SPEAKER = /^(?:>>\s*)?\[?(speaker[ _-]?\d+)\]?\s*:\s*/i;
+// Upper case only, so an ordinary "Note: ..." is not taken for a name
+const NAMED_SPEAKER = /^(?:>>\s*)?([A-Z][A-Z'. -]{1,29}[A-Z])\s*:\s*/;
+// All-caps lead-ins that are not anyone's name
+const NOT_SPEAKERS = new Set([
+  "NOTE", "WARNING", "UPDATE", "EDIT", "TIP", "PRO TIP", "IMPORTANT", "DISCLAIMER", "CAUTION", "SPOILER",
+  "REMINDER", "BREAKING", "FYI", "NEW", "BONUS", "QUESTION", "ANSWER", "STEP", "RESULT",
+]);
+const SPEAKER_MARKER = /^>>\s*/;
+
+interface WorkingSegment {
+  start: number;
+  end?: number;
+  text: string;
+  speaker?: string;
+}
+
+/** Keeps the known rules from a request body, falling back to the defaults. */
+export function parseCleanupOptions(value: unknown): CleanupOptions {
+  const options = { ...DEFAULT_CLEANUP };
+  if (!value || typeof value !== "object") return options;
+  for (const rule of Object.keys(DEFAULT_CLEANUP) as CleanupRule[]) {
+    const flag = (value as Record<string, unknown>)[rule];
+    if (typeof flag === "boolean") options[rule] = flag;
+  }
+  return options;
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.!?])/g, "$1")
+    .replace(/^[,.\s]+/, "")
+    .trim();
+}
+
+function speakerName(raw: string, numbered: boolean): string {
+  if (numbered) return `Speaker ${Number(raw.match(/\d+/)![0])}`;
+  // JOHN SMITH -> John Smith
+  return raw.toLowerCase().replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+/** Pulls a leading speaker label off the cue, if it has one. */
+function takeSpeaker(segment: WorkingSegment): void {
+  const numbered = segment.text.match(NUMBERED_SPEAKER);
+  const named = segment.text.match(NAMED_SPEAKER);
+  const match = numbered ?? (named && !NOT_SPEAKERS.has(named[1].trim()) ? named : null);
+  if (match) {
+    segment.speaker = speakerName(match[1], !!numbered);
+    segment.text = segment.text.slice(match[0].length);
+  } else {
+    segment.text = segment.text.replace(SPEAKER_MARKER, "");
+  }
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Removes the start of `next` that repeats the end of `previous`, the way
+ * rolling captions show each line twice. Returns the new text, which is
+ * empty when `next` adds nothing.
+ */
+function dropOverlap(previous: string, next: string): string {
+  const before = words(previous).map(normalizeWord);
+  const after = words(next);
+  const normalized = after.map(normalizeWord);
+
+  for (let size = Math.min(before.length, after.length); size >= MIN_OVERLAP_WORDS; size--) {
+    const tail = before.slice(before.length - size);
+    if (tail.every((word, i) => word === normalized[i])) {
+      return after.slice(size).join(" ");
+    }
+  }
+
+  // A cue repeated whole, however short
+  return normalized.join(" ") === before.join(" ") ? "" : next;
+}
+
+function mergeShort(segments: WorkingSegment[]): WorkingSegment[] {
+  const merged: WorkingSegment[] = [];
+
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    const canJoin =
+      last &&
+      words(last.text).length < MIN_CUE_WORDS &&
+      segment.speaker === last.speaker &&
+      segment.start - last.start <= MAX_MERGED_SECONDS;
+
+    if (canJoin) {
+      last.text = `${last.text} ${segment.text}`;
+      last.end = segment.end ?? last.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged;
+}
+
+/** Writes each speaker label back once, where the speaker changes. */
+function renderSpeakers(segments: WorkingSegment[]): TranscriptSegment[] {
+  let current: string | undefined;
+  return segments.map(({ start, end, text, speaker }) => {
+    const label = speaker && speaker !== current ? `${speaker}: ` : "";
+    if (speaker) current = speaker;
+    return end === undefined ? { start, text: `${label}${text}` } : { start, end, text: `${label}${text}` };
+  });
+}
+
+function cleanText(text: string, options: CleanupOptions): string {
+  let cleaned = text;
+  if (options.cue_tags) cleaned = cleaned.replace(CUE_TAG, " ");
+  if (options.fillers) cleaned = cleaned.replace(FILLER, "$1");
+  return tidy(cleaned);
+}
+
+export function cleanTranscript(
+  transcript: ParsedTranscript,
+  options: CleanupOptions = DEFAULT_CLEANUP
+): CleanupResult {
+  const before = renderTranscript(transcript).length;
+
+  // Plain text has no cues to dedupe or merge; the text rules still apply
+  if (transcript.segments.length === 0) {
+    const lines: WorkingSegment[] = [];
+    for (const line of transcript.text.split("\n")) {
+      const segment: WorkingSegment = { start: 0, text: line };
+      if (options.speakers) takeSpeaker(segment);
+      segment.text = cleanText(segment.text, options);
+      if (segment.text) lines.push(segment);
+    }
+    const text = renderSpeakers(lines)
+      .map((line) => line.text)
+      .join("\n");
+    return { transcript: { ...transcript, text }, before, after: text.length };
+  }
+
+  let segments: WorkingSegment[] = [];
+  for (const original of transcript.segments) {
+    const segment: WorkingSegment = { start: original.start, end: original.end, text: original.text };
+    const last = segments[segments.length - 1];
+    if (options.speakers) takeSpeaker(segment);
+    // An unlabeled cue is still the last speaker talking
+    segment.speaker ??= last?.speaker;
+    segment.text = cleanText(segment.text, options);
+
+    if (last && options.rolling_overlap && segment.speaker === last.speaker) {
+      segment.text = dropOverlap(last.text, segment.text);
+    }
+
+    if (!segment.text) {
+      if (last && original.end !== undefined) last.end = original.end;
+      continue;
+    }
+    segments.push(segment);
+  }
+
+  if (options.merge_short) segments = mergeShort(segments);
+
+  // Keep the untouched transcript rather than send the model nothing
+  if (segments.length === 0) return { transcript, before, after: before };
+
+  const cleanedSegments = renderSpeakers(segments);
+  const cleaned: ParsedTranscript = {
+    ...transcript,
+    segments: cleanedSegments,
+    text: cleanedSegments.map((segment) => segment.text).join(" "),
+  };
+
+  return { transcript: cleaned, before, after: renderTranscript(cleaned).length };
+}
@@ -0,0 +1,189 @@
+/**
+ * Transcript ingestion: turns whatever was pasted into the textarea into timed
+ * segments before analysis.
+ *
+ * Caption exports carry real cue times, and chapters built from them land
+ * where the topic actually changes. Without them the model can only estimate
+ * from word count, so plain text still works but is the fallback, not the goal.
+ */
+
+export type TranscriptFormat = "srt" | "vtt" | "json3" | "timestamped" | "plain";
+
+export interface TranscriptSegment {
+  /** Cue start in seconds. */
+  readonly start: number;
+  /** Cue end in seconds, when the format records one. */
+  readonly end?: number;
+  readonly text: string;
+}
+
+export interface ParsedTranscript {
+  readonly format: TranscriptFormat;
+  /** Empty for plain text, which has no timing to keep. */
+  readonly segments: TranscriptSegment[];
+  /** Spoken text only, cue numbers and timing stripped. */
+  readonly text: string;
+  /** End of the last cue in seconds, when the transcript is timed. */
+  readonly duration?: number;
+}
+
+export const FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  srt: "SRT",
+  vtt: "WebVTT",
+  json3: "YouTube JSON3",
+  timestamped: "Timestamped",
+  plain: "Plain text",
+};
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+const LEADING_TIMESTAMP = /^\s*[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?\s*(?:[-–:|]\s*)?(.*)$/;
+
+/** "1:02:03.5", "02:03,500" or "2:03" to seconds. */
+export function parseClock(value: string): number {
+  const [clock, fraction = "0"] = value.trim().split(/[.,]/);
+  const seconds = clock
+    .split(":")
+    .map(Number)
+    .reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+/** Seconds to the "M:SS" / "H:MM:SS" form YouTube uses for chapters. */
+export function formatTimestamp(totalSeconds: number): string {
+  const whole = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const seconds = String(whole % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/** "[M:SS] text", the line format the analysis prompts read cue times from. */
+export function renderSegment(segment: TranscriptSegment): string {
+  return `[${formatTimestamp(segment.start)}] ${segment.text}`;
+}
+
+/** One line per cue for timed transcripts, the text as-is otherwise. */
+export function renderTranscript(transcript: ParsedTranscript): string {
+  if (transcript.segments.length === 0) return transcript.text;
+  return transcript.segments.map(renderSegment).join("\n");
+}
+
+/** Drops inline markup such as <c>, <i> and VTT's <00:00:01.234> word timings. */
+function stripMarkup(text: string): string {
+  return text.replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim();
+}
+
+function parseJson3(raw: string): TranscriptSegment[] | null {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (!doc || typeof doc !== "object") return null;
+  const events = (doc as { events?: unknown }).events;
+  if (!Array.isArray(events)) return null;
+
+  const segments: TranscriptSegment[] = [];
+  for (const event of events) {
+    if (typeof event?.tStartMs !== "number" || !Array.isArray(event.segs)) continue;
+    const text = stripMarkup(
+      // Hand-edited files can hold null or non-text segs; they add nothing
+      event.segs.map((seg: { utf8?: unknown } | null) => (typeof seg?.utf8 === "string" ? seg.utf8 : "")).join("")
+    );
+    if (!text) continue;
+
+    const start = event.tStartMs / 1000;
+    const end =
+      typeof event.dDurationMs === "number" ? start + event.dDurationMs / 1000 : undefined;
+    segments.push({ start, end, text });
+  }
+
+  return segments;
+}
+
+/**
+ * SRT and WebVTT share a block structure: an optional identifier line, a
+ * "start --> end" timing line, then text until the next blank line. VTT's
+ * header, NOTE and STYLE blocks have no timing line and fall out naturally.
+ */
+function parseCueBlocks(raw: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = raw.replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex < 0) continue;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    const text = stripMarkup(lines.slice(timingIndex + 1).join(" "));
+    if (!text) continue;
+
+    segments.push({ start: parseClock(start), end: parseClock(end), text });
+  }
+
+  return segments;
+}
+
+/** "[00:01:23] text", "(1:23) text", "1:23 - text". Untimed lines join the cue above. */
+function parseTimestampedLines(raw: string): TranscriptSegment[] {
+  const segments: { start: number; text: string }[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const match = line.match(LEADING_TIMESTAMP);
+    if (match) {
+      segments.push({ start: parseClock(match[1]), text: match[2].trim() });
+    } else if (segments.length > 0) {
+      const last = segments[segments.length - 1];
+      last.text = `${last.text} ${line.trim()}`.trim();
+    }
+  }
+
+  return segments.filter((segment) => segment.text);
+}
+
+export function detectTranscriptFormat(raw: string): TranscriptFormat {
+  const trimmed = raw.trim();
+
+  if (trimmed.startsWith("{") && parseJson3(trimmed)) return "json3";
+  if (/^WEBVTT\b/.test(trimmed)) return "vtt";
+
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.slice(0, 3).some((line) => CUE_TIMING.test(line))) return "srt";
+
+  const timed = lines.filter((line) => LEADING_TIMESTAMP.test(line)).length;
+  if (lines.length > 0 && LEADING_TIMESTAMP.test(lines[0]) && timed >= Math.min(2, lines.length)) {
+    return "timestamped";
+  }
+
+  return "plain";
+}
+
+export function parseTranscript(raw: string): ParsedTranscript {
+  const format = detectTranscriptFormat(raw);
+
+  let segments: TranscriptSegment[] = [];
+  if (format === "json3") segments = parseJson3(raw.trim()) ?? [];
+  if (format === "srt" || format === "vtt") segments = parseCueBlocks(raw);
+  if (format === "timestamped") segments = parseTimestampedLines(raw);
+
+  if (segments.length === 0) {
+    return { format: "plain", segments: [], text: raw.trim() };
+  }
+
+  segments.sort((a, b) => a.start - b.start);
+  const last = segments[segments.length - 1];
+
+  return {
+    format,
+    segments,
+    text: segments.map((segment) => segment.text).join(" "),
+    duration: last.end ?? last.start,
+  };
+}
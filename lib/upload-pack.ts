@@ -0,0 +1,62 @@
+/**
+ * Plain-text exports of the results, in the form YouTube Studio takes them.
+ * Everything is built around the working title the user picked, not whichever
+ * title the model happened to write first.
+ */
+
+import type { AnalysisData, TimelineChapter } from "./analysis";
+import type { ChannelConfig } from "./channels";
+import { renderFooter } from "./description-footer";
+import { packTags } from "./tag-pack";
+
+/** One "M:SS Title" line per chapter, the format YouTube turns into chapters. */
+export function formatTimeline(timeline: TimelineChapter[]): string {
+  return timeline.map((ch) => `${ch.timestamp} ${ch.title}`).join("\n");
+}
+
+export interface UploadPackOptions {
+  /** The channel whose description footer goes at the end. */
+  readonly channel?: ChannelConfig;
+  /** The packed Studio tag string; packed without transcript support when left out. */
+  readonly tagText?: string;
+  /** Fills the footer's {{date}}; defaults to now. */
+  readonly date?: Date;
+  /** Fills the footer's {{sponsor}}; sponsor lines are left out without it. */
+  readonly sponsor?: string;
+}
+
+/**
+ * The description as pasted into Studio: the full text, the chapters, then
+ * the channel's footer. A footer with {{chapters}} places them itself.
+ */
+export function uploadDescription(
+  data: AnalysisData,
+  workingTitle = "",
+  { channel, date = new Date(), sponsor }: UploadPackOptions = {}
+): string {
+  const chapters = formatTimeline(data.timeline);
+  const footer = channel?.descriptionFooter
+    ? renderFooter(channel, { title: workingTitle, chapters, date, sponsor })
+    : null;
+
+  return [data.description.full_text, footer?.hasChapters ? "" : chapters, footer?.text ?? ""]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Title, the description as pasted, and tags, ready to paste field by field
+ * into the upload form. The tags are the packed Studio string, so they fit
+ * the 500-character budget as pasted.
+ */
+export function buildUploadPack(
+  workingTitle: string,
+  data: AnalysisData,
+  options: UploadPackOptions = {}
+): string {
+  return [
+    `TITLE\n${workingTitle}`,
+    `DESCRIPTION\n${uploadDescription(data, workingTitle, options)}`,
+    `TAGS\n${options.tagText ?? packTags(data.tags).text}`,
+  ].join("\n\n---\n\n");
+}
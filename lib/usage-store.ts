@@ -0,0 +1,233 @@
+/**
+ * Where usage totals live, and the monthly budget caps that read them.
+ *
+ * With Supabase configured, every request adds rows to `llm_usage`:
+ *
+ *   create table llm_usage (
+ *     id bigint generated always as identity primary key,
+ *     day date not null,
+ *     channel text not null,
+ *     route text not null,
+ *     model text not null,
+ *     prompt_tokens integer not null,
+ *     completion_tokens integer not null,
+ *     cost_usd numeric(12, 6) not null,
+ *     created_at timestamptz not null default now()
+ *   );
+ *
+ * Without it, usage is kept in memory: fine for local dev, but lost on restart
+ * and split across serverless instances, so on Vercel a cap only stops an
+ * instance once that instance alone has spent it. That is warned once at
+ * startup, the same way the other stores report a missing Supabase.
+ *
+ * Caps are optional: MONTHLY_BUDGET_USD for the whole app, and
+ * `monthlyBudgetUsd` on a channel in `channels.ts`.
+ */
+
+import { listChannels } from "./channel-store";
+import type { ChannelConfig } from "./channels";
+import { supabaseFetch, supabaseTable } from "./supabase-rest";
+import type { UsageMeter } from "./usage";
+
+export interface UsageRecord {
+  readonly day: string;
+  readonly channel: string;
+  readonly route: string;
+  readonly model: string;
+  readonly prompt_tokens: number;
+  readonly completion_tokens: number;
+  readonly cost_usd: number;
+}
+
+export interface UsageStore {
+  add(records: UsageRecord[]): Promise<void>;
+  /** Every record on or after `day` (YYYY-MM-DD). */
+  since(day: string): Promise<UsageRecord[]>;
+}
+
+export interface ChannelSpend {
+  channel: string;
+  /** The channel's display name, or its id once the channel is deleted. */
+  name: string;
+  cost_usd: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  budget_usd: number | null;
+}
+
+export interface UsageReport {
+  /** YYYY-MM, in UTC. */
+  month: string;
+  cost_usd: number;
+  budget_usd: number | null;
+  channels: ChannelSpend[];
+  days: { day: string; cost_usd: number; channels: Record<string, number> }[];
+}
+
+const USAGE_TABLE = "llm_usage";
+
+function createMemoryStore(): UsageStore {
+  const records: UsageRecord[] = [];
+  return {
+    async add(added) {
+      records.push(...added);
+    },
+    async since(day) {
+      return records.filter((r) => r.day >= day);
+    },
+  };
+}
+
+function createSupabaseStore(): UsageStore | null {
+  const table = supabaseTable(USAGE_TABLE);
+  if (!table) return null;
+
+  return {
+    async add(records) {
+      const response = await supabaseFetch(table.url, {
+        method: "POST",
+        headers: table.headers,
+        body: JSON.stringify(records),
+      });
+      if (!response.ok) throw new Error(`Usage insert failed: ${response.status}`);
+    },
+    async since(day) {
+      const response = await supabaseFetch(
+        `${table.url}?day=gte.${day}&select=day,channel,route,model,prompt_tokens,completion_tokens,cost_usd`,
+        { headers: table.headers }
+      );
+      if (!response.ok) throw new Error(`Usage read failed: ${response.status}`);
+      const rows: UsageRecord[] = await response.json();
+      // numeric columns can come back as strings
+      return rows.map((r) => ({ ...r, cost_usd: Number(r.cost_usd) }));
+    },
+  };
+}
+
+function selectStore(): UsageStore {
+  const store = createSupabaseStore();
+  if (store) return store;
+  console.warn(
+    "Supabase is not configured; usage is kept in memory, per instance, so budget caps only count " +
+      "the spend each instance has seen"
+  );
+  return createMemoryStore();
+}
+
+// Chosen once, like the other stores, so the warning comes once at startup
+const usageStore = selectStore();
+
+export function getUsageStore(): UsageStore {
+  return usageStore;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function monthStart(): string {
+  return `${today().slice(0, 7)}-01`;
+}
+
+function globalBudget(): number | null {
+  const value = Number(process.env.MONTHLY_BUDGET_USD);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Stores one request's usage, one row per model. Never throws: losing a usage
+ * row is better than failing a request that already paid for its tokens.
+ */
+export async function saveUsage(
+  meter: UsageMeter,
+  { route, channel }: { route: string; channel?: string }
+): Promise<void> {
+  if (meter.entries.length === 0) return;
+
+  const byModel = new Map<string, UsageRecord>();
+  for (const entry of meter.entries) {
+    const previous = byModel.get(entry.model);
+    byModel.set(entry.model, {
+      day: today(),
+      channel: channel ?? "",
+      route,
+      model: entry.model,
+      prompt_tokens: (previous?.prompt_tokens ?? 0) + entry.promptTokens,
+      completion_tokens: (previous?.completion_tokens ?? 0) + entry.completionTokens,
+      cost_usd: (previous?.cost_usd ?? 0) + entry.costUsd,
+    });
+  }
+
+  try {
+    await getUsageStore().add([...byModel.values()]);
+  } catch (error) {
+    console.error("Saving usage failed:", error);
+  }
+}
+
+export async function buildUsageReport(): Promise<UsageReport> {
+  const records = await getUsageStore().since(monthStart());
+  const configs = new Map((await listChannels()).map((channel) => [channel.id, channel]));
+
+  const channels = new Map<string, ChannelSpend>();
+  const days = new Map<string, UsageReport["days"][number]>();
+
+  for (const record of records) {
+    const spend = channels.get(record.channel) ?? {
+      channel: record.channel,
+      name: configs.get(record.channel)?.name ?? record.channel,
+      cost_usd: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      budget_usd: configs.get(record.channel)?.monthlyBudgetUsd ?? null,
+    };
+    spend.cost_usd += record.cost_usd;
+    spend.prompt_tokens += record.prompt_tokens;
+    spend.completion_tokens += record.completion_tokens;
+    channels.set(record.channel, spend);
+
+    const day = days.get(record.day) ?? { day: record.day, cost_usd: 0, channels: {} };
+    day.cost_usd += record.cost_usd;
+    day.channels[record.channel] = (day.channels[record.channel] ?? 0) + record.cost_usd;
+    days.set(record.day, day);
+  }
+
+  return {
+    month: monthStart().slice(0, 7),
+    cost_usd: records.reduce((sum, r) => sum + r.cost_usd, 0),
+    budget_usd: globalBudget(),
+    channels: [...channels.values()].sort((a, b) => b.cost_usd - a.cost_usd),
+    days: [...days.values()].sort((a, b) => a.day.localeCompare(b.day)),
+  };
+}
+
+/**
+ * The reason to refuse a request because a monthly cap is spent, or null to
+ * go ahead. Takes the channel the route already loaded. With no caps set this
+ * never touches the usage store.
+ */
+export async function checkBudget(channel?: ChannelConfig): Promise<string | null> {
+  const budget = globalBudget();
+  const channelBudget = channel?.monthlyBudgetUsd ?? null;
+  if (budget === null && channelBudget === null) return null;
+
+  try {
+    const records = await getUsageStore().since(monthStart());
+    const spent = records.reduce((sum, r) => sum + r.cost_usd, 0);
+    if (budget !== null && spent >= budget) {
+      return `Monthly AI budget of $${budget.toFixed(2)} reached. Raise MONTHLY_BUDGET_USD or wait for next month.`;
+    }
+
+    const channelSpent = records
+      .filter((r) => r.channel === channel?.id)
+      .reduce((sum, r) => sum + r.cost_usd, 0);
+    if (channelBudget !== null && channelSpent >= channelBudget) {
+      return `This channel's monthly AI budget of $${channelBudget.toFixed(2)} is used up.`;
+    }
+  } catch (error) {
+    // A store outage should not take the app down with it
+    console.error("Budget check failed:", error);
+  }
+
+  return null;
+}
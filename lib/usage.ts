@@ -0,0 +1,90 @@
+/**
+ * Token and cost accounting for model calls.
+ *
+ * Each request gets a meter. Every `complete` / `streamCompletion` call that
+ * carries it records the provider's token counts, and the route returns the
+ * totals and hands the meter to `saveUsage` (see `usage-store.ts`).
+ *
+ * Costs are estimates from list prices. Models missing from the table, which
+ * includes everything on a local server, count as free.
+ */
+
+import type { LlmTask } from "./llm";
+
+export interface TokenUsage {
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+  readonly task: LlmTask;
+  readonly model: string;
+  readonly costUsd: number;
+}
+
+export interface UsageMeter {
+  readonly entries: UsageEntry[];
+  record(task: LlmTask, model: string, usage: TokenUsage): void;
+}
+
+/** The shape returned in API responses. */
+export interface UsageSummary {
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  calls: {
+    task: LlmTask;
+    model: string;
+    prompt_tokens: number;
+    completion_tokens: number;
+    cost_usd: number;
+  }[];
+}
+
+/** USD per million tokens, [prompt, completion]. Dated snapshots match by prefix. */
+const MODEL_PRICES: Record<string, [number, number]> = {
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4o": [2.5, 10],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1": [2, 8],
+};
+
+// Longest first, so "gpt-4o-mini-2024-07-18" is not priced as gpt-4o
+const PRICE_PREFIXES = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const prefix = PRICE_PREFIXES.find((p) => model.startsWith(p));
+  if (!prefix) return 0;
+  const [prompt, completion] = MODEL_PRICES[prefix];
+  return (usage.promptTokens * prompt + usage.completionTokens * completion) / 1_000_000;
+}
+
+export function createUsageMeter(): UsageMeter {
+  const entries: UsageEntry[] = [];
+  return {
+    entries,
+    record(task, model, usage) {
+      entries.push({ task, model, ...usage, costUsd: estimateCost(model, usage) });
+    },
+  };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export function summarizeUsage(meter: UsageMeter): UsageSummary {
+  return {
+    prompt_tokens: meter.entries.reduce((sum, e) => sum + e.promptTokens, 0),
+    completion_tokens: meter.entries.reduce((sum, e) => sum + e.completionTokens, 0),
+    cost_usd: roundCost(meter.entries.reduce((sum, e) => sum + e.costUsd, 0)),
+    calls: meter.entries.map((e) => ({
+      task: e.task,
+      model: e.model,
+      prompt_tokens: e.promptTokens,
+      completion_tokens: e.completionTokens,
+      cost_usd: roundCost(e.costUsd),
+    })),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * "Learn voice": reads a channel's past titles and descriptions and proposes
+ * new `tone`, `audience`, `titlePatterns`, `descriptionStyle` and banned
+ * words to replace the hand-written ones. Nothing is saved by the model: the
+ * Channels page shows each proposed field as a diff and applies the ones
+ * picked. Nothing here touches the server, so the page can import it too.
+ */
+
+import type { ValidationResult } from "./analysis-schema";
+import type { ChannelConfig } from "./channels";
+import { renderPromptTemplate } from "./prompt-template";
+import { MAX_VOICE_SAMPLES, MIN_VOICE_SAMPLES, type VoiceSample } from "./voice-samples";
+
+// Descriptions past this are cut in the prompt: the voice is in the opening
+// lines, and 200 full descriptions would cost more than the rest of the call
+const SAMPLE_DESCRIPTION_LENGTH = 400;
+const MAX_PROPOSED_PATTERNS = 10;
+const MAX_PROPOSED_AVOID = 15;
+// Matches the list limit in channel-schema.ts
+const MAX_BANNED_WORDS = 50;
+
+/**
+ * Built-in wording of the voice learning prompt. The prompt registry serves
+ * an edited version in its place once one is saved on the Prompts page.
+ */
+export const VOICE_LEARNING_TEMPLATE = `You are studying the past uploads of the "{{channel_name}}" YouTube channel to describe how it actually writes, so future titles and descriptions sound like it.
+
+The channel's current settings, written by hand and possibly out of date:
+Tone: {{tone}}
+Audience: {{audience}}
+Title patterns: {{title_patterns}}
+Description style: {{description_style}}
+Words it never uses: {{banned_words}}
+
+The user message lists past videos. When view counts are given, the list is sorted best first: weigh the top performers most, since that is the voice worth copying. Describe what the titles and descriptions do, not what a YouTube guide says they should do.
+
+RESPOND WITH THIS EXACT JSON STRUCTURE:
+{
+  "tone": "One or two sentences on the voice, as specific as the current tone",
+  "audience": "Who the videos are written for, in one sentence",
+  "title_patterns": ["4-8 reusable title templates with [Placeholders] for the parts that change"],
+  "description_style": "How the descriptions are built, in 2-4 sentences: how they open, how long they run, lists, links, how they sign off",
+  "avoid": ["Words or phrases common in AI-written copy that this channel never uses"],
+  "summary": "Two sentences on what differs from the current settings"
+}
+
+RULES:
+- Every title pattern must fit at least three of the samples
+- Keep the current wording where the samples agree with it
+- "avoid" holds only words that appear in none of the samples, at most ${MAX_PROPOSED_AVOID}, lower-case
+- When there are no descriptions, repeat the current description style
+- No em dashes`;
+
+/** Values for the `{{variables}}` in the voice learning prompt. */
+export function voiceLearningVariables(channel: ChannelConfig): Record<string, string> {
+  return {
+    channel_name: channel.name,
+    tone: channel.tone,
+    audience: channel.audience,
+    title_patterns: channel.titlePatterns.join("; "),
+    description_style: channel.descriptionStyle ?? "not set",
+    banned_words: channel.bannedWords.length > 0 ? channel.bannedWords.map((w) => `"${w}"`).join(", ") : "none",
+  };
+}
+
+export function buildVoiceLearningPrompt(
+  channel: ChannelConfig,
+  template: string = VOICE_LEARNING_TEMPLATE
+): string {
+  return renderPromptTemplate(template, voiceLearningVariables(channel));
+}
+
+/** The samples as the user message, best performers first when views are known. */
+export function buildVoiceSamplesMessage(samples: VoiceSample[]): string {
+  const withViews = samples.some((sample) => sample.views !== undefined);
+  const ordered = withViews ? [...samples].sort((a, b) => (b.views ?? 0) - (a.views ?? 0)) : samples;
+
+  const videos = ordered.map((sample, i) => {
+    const views = sample.views !== undefined ? ` (${sample.views.toLocaleString("en-US")} views)` : "";
+    const description =
+      sample.description.length > SAMPLE_DESCRIPTION_LENGTH
+        ? `${sample.description.slice(0, SAMPLE_DESCRIPTION_LENGTH)}...`
+        : sample.description;
+    return `${i + 1}. ${sample.title}${views}${description ? `\n${description}` : ""}`;
+  });
+
+  return `${samples.length} past videos${withViews ? ", sorted by views" : ""}:\n\n${videos.join("\n\n")}`;
+}
+
+/** Checks the samples a request sent. Returns them trimmed, or an error for the page. */
+export function validateVoiceSamples(value: unknown): ValidationResult<VoiceSample[]> {
+  if (!Array.isArray(value)) return { value: null, errors: ["samples: expected a list of videos"] };
+
+  const samples: VoiceSample[] = [];
+  for (const item of value) {
+    if (typeof item !== "object" || item === null || typeof item.title !== "string") {
+      return { value: null, errors: ["samples: every video needs a title"] };
+    }
+    if (!item.title.trim()) continue;
+    samples.push({
+      title: item.title.trim(),
+      description: typeof item.description === "string" ? item.description.trim() : "",
+      ...(typeof item.views === "number" && Number.isFinite(item.views) ? { views: item.views } : {}),
+    });
+  }
+
+  if (samples.length < MIN_VOICE_SAMPLES || samples.length > MAX_VOICE_SAMPLES) {
+    return {
+      value: null,
+      errors: [`samples: needs ${MIN_VOICE_SAMPLES}-${MAX_VOICE_SAMPLES} videos, got ${samples.length}`],
+    };
+  }
+  return { value: samples, errors: [] };
+}
+
+export interface VoiceProposal {
+  readonly tone: string;
+  readonly audience: string;
+  readonly titlePatterns: string[];
+  readonly descriptionStyle: string;
+  /** New banned words, not yet merged with the channel's own. */
+  readonly avoid: string[];
+  readonly summary: string;
+}
+
+/** The channel fields a proposal can change, in the order the review shows them. */
+export const VOICE_FIELDS = ["tone", "audience", "titlePatterns", "descriptionStyle", "bannedWords"] as const;
+export type VoiceField = (typeof VOICE_FIELDS)[number];
+
+export const VOICE_FIELD_LABELS: Record<VoiceField, string> = {
+  tone: "Tone",
+  audience: "Audience",
+  titlePatterns: "Title patterns",
+  descriptionStyle: "Description style",
+  bannedWords: "Banned words",
+};
+
+function stringList(value: unknown, max: number): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .slice(0, max);
+}
+
+/** Reads the model's JSON. A proposal needs a tone and at least one title pattern. */
+export function parseVoiceProposal(raw: unknown): ValidationResult<VoiceProposal> {
+  if (typeof raw !== "object" || raw === null) return { value: null, errors: ["Expected a JSON object"] };
+  const data = raw as Record<string, unknown>;
+  const textField = (key: string) => (typeof data[key] === "string" ? (data[key] as string).trim() : "");
+
+  const proposal: VoiceProposal = {
+    tone: textField("tone"),
+    audience: textField("audience"),
+    titlePatterns: stringList(data.title_patterns, MAX_PROPOSED_PATTERNS),
+    descriptionStyle: textField("description_style"),
+    avoid: stringList(data.avoid, MAX_PROPOSED_AVOID).map((word) => word.toLowerCase()),
+    summary: textField("summary"),
+  };
+
+  const errors: string[] = [];
+  if (!proposal.tone) errors.push("tone: missing");
+  if (proposal.titlePatterns.length === 0) errors.push("title_patterns: missing");
+  return errors.length > 0 ? { value: null, errors } : { value: proposal, errors: [] };
+}
+
+/**
+ * The channel's fields as the proposal would leave them. Empty proposed text
+ * keeps the current value, and banned words are added to, never replaced.
+ */
+export function proposedVoiceFields(channel: ChannelConfig, proposal: VoiceProposal): Pick<ChannelConfig, VoiceField> {
+  const known = new Set(channel.bannedWords.map((word) => word.toLowerCase()));
+  const added = proposal.avoid.filter((word) => !known.has(word));
+
+  return {
+    tone: proposal.tone || channel.tone,
+    audience: proposal.audience || channel.audience,
+    titlePatterns: proposal.titlePatterns.length > 0 ? proposal.titlePatterns : channel.titlePatterns,
+    descriptionStyle: proposal.descriptionStyle || channel.descriptionStyle,
+    bannedWords: [...channel.bannedWords, ...added].slice(0, MAX_BANNED_WORDS),
+  };
+}
+
+/** A voice field as lines, for the review diff. */
+export function voiceFieldText(fields: Pick<ChannelConfig, VoiceField>, field: VoiceField): string {
+  const value = fields[field];
+  return Array.isArray(value) ? value.join("\n") : value ?? "";
+}
@@ -0,0 +1,112 @@
+/**
+ * Past videos for the "Learn voice" flow on the Channels page, read from a
+ * paste or a video-list CSV. Runs in the browser, so the count shows before
+ * anything is sent.
+ */
+
+export interface VoiceSample {
+  readonly title: string;
+  readonly description: string;
+  /** From a CSV with a views column; tells the model which videos performed. */
+  readonly views?: number;
+}
+
+export const MIN_VOICE_SAMPLES = 20;
+export const MAX_VOICE_SAMPLES = 200;
+
+/**
+ * A paste with no blank lines is one title per line. With blank lines, each
+ * block is one video: the title on its first line, the description below.
+ */
+export function parsePastedSamples(text: string): VoiceSample[] {
+  const normalized = text.replace(/\r\n?/g, "\n").trim();
+  if (!normalized) return [];
+
+  if (!/\n\s*\n/.test(normalized)) {
+    return normalized
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((title) => ({ title, description: "" }));
+  }
+
+  return normalized
+    .split(/\n\s*\n/)
+    .map((block) => {
+      const [title, ...rest] = block.trim().split("\n");
+      return { title: title.trim(), description: rest.join("\n").trim() };
+    })
+    .filter((sample) => sample.title);
+}
+
+/** RFC 4180 rows: quoted fields may hold commas, newlines and doubled quotes. */
+function csvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/**
+ * Reads a video list exported from YouTube Studio or a similar tool. Needs a
+ * title column; description and views columns are used when present. Studio
+ * puts a "Total" row first, which is skipped.
+ */
+export function parseVideoListCsv(text: string): { samples: VoiceSample[]; error?: string } {
+  const [header, ...rows] = csvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) return { samples: [], error: "The CSV is empty." };
+
+  const column = (pattern: RegExp) => header.findIndex((name) => pattern.test(name.trim()));
+  const title = column(/title/i);
+  const description = column(/description/i);
+  const views = column(/^views$/i);
+  if (title === -1) {
+    return { samples: [], error: `No title column. The columns are: ${header.join(", ")}.` };
+  }
+
+  const samples = rows
+    .map((row) => {
+      const count = views === -1 ? NaN : Number(row[views]?.replace(/,/g, ""));
+      return {
+        title: row[title]?.trim() ?? "",
+        description: description === -1 ? "" : row[description]?.trim() ?? "",
+        ...(Number.isFinite(count) ? { views: count } : {}),
+      };
+    })
+    .filter((sample) => sample.title && sample.title.toLowerCase() !== "total");
+
+  return { samples };
+}
@@ -1,8 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  // The overlay font is read from disk at runtime, so it has to be traced into
-  // the serverless bundle explicitly.
+  // Built-in overlay fonts (BUILT_IN_FONTS in lib/font-registry.ts) are read
+  // from disk at runtime, so they have to be traced into the serverless bundle
+  // explicitly. Uploaded fonts come from the CDN and need no tracing.
   outputFileTracingIncludes: {
     "/api/generate-thumbnail": ["./assets/**"],
   },